@@ -24,10 +24,16 @@ export default defineManifest({
     'debugger',
     'activeTab',
     'tabs',
+    'storage',
+    'unlimitedStorage',
+    'webNavigation',
+    'downloads',
   ],
   content_scripts: [{
     js: ['src/content/main.tsx'],
     matches: ['https://*/*', 'http://*/*'],
+    all_frames: true,
+    match_about_blank: true,
   }],
   side_panel: {
     default_path: 'src/sidepanel/index.html',
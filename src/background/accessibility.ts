@@ -0,0 +1,82 @@
+import type { AXTreeNode } from '../shared/types';
+
+// CDP Accessibility.getFullAXTree가 반환하는 노드 중 사용하는 필드
+export interface CDPAXNode {
+  nodeId: string;
+  ignored: boolean;
+  role?: { value?: string };
+  name?: { value?: string };
+  value?: { value?: unknown };
+  properties?: Array<{ name: string; value: { value?: unknown } }>;
+  childIds?: string[];
+  backendDOMNodeId?: number;
+}
+
+// 이름이 없으면 의미가 없는 구조용 role은 자식만 남기고 생략한다
+const STRUCTURAL_ROLES = new Set([
+  'generic', 'none', 'presentation', 'GenericContainer', 'Section', 'LineBreak', 'InlineTextBox',
+]);
+
+const BOOLEAN_STATES = ['disabled', 'focused', 'selected', 'required', 'readonly', 'modal', 'multiselectable', 'invalid'];
+
+function getStates(node: CDPAXNode): string[] {
+  const states: string[] = [];
+
+  (node.properties || []).forEach(property => {
+    const value = property.value?.value;
+    if (property.name === 'checked' || property.name === 'pressed') {
+      if (value === 'true' || value === true) states.push(property.name);
+      if (value === 'mixed') states.push(`${property.name}=mixed`);
+    } else if (property.name === 'expanded') {
+      states.push(value ? 'expanded' : 'collapsed');
+    } else if (BOOLEAN_STATES.includes(property.name) && (value === true || value === 'true')) {
+      states.push(property.name);
+    }
+  });
+
+  return states;
+}
+
+export function buildAccessibilityTree(
+  nodes: CDPAXNode[],
+  elementIdsByBackendNode: Map<number, number>,
+  maxNodes: number = 500
+): AXTreeNode[] {
+  const nodesById = new Map(nodes.map(node => [node.nodeId, node]));
+  const childIdSet = new Set(nodes.flatMap(node => node.childIds || []));
+  const roots = nodes.filter(node => !childIdSet.has(node.nodeId));
+  let count = 0;
+
+  const convert = (node: CDPAXNode): AXTreeNode[] => {
+    if (count >= maxNodes) return [];
+
+    const role = node.role?.value || 'unknown';
+    const name = typeof node.name?.value === 'string' ? node.name.value.trim() : '';
+    const elementId = node.backendDOMNodeId !== undefined ? elementIdsByBackendNode.get(node.backendDOMNodeId) : undefined;
+
+    // 부모의 accessible name과 같은 StaticText 자식은 중복이므로 제외
+    const children = (node.childIds || [])
+      .map(childId => nodesById.get(childId))
+      .filter((child): child is CDPAXNode => !!child)
+      .flatMap(convert)
+      .filter(child => !(name && child.role === 'StaticText' && child.name === name && !child.children));
+
+    if (node.ignored || (STRUCTURAL_ROLES.has(role) && !name && elementId === undefined)) {
+      return children;
+    }
+
+    count++;
+    const rawValue = node.value?.value;
+    const treeNode: AXTreeNode = { role };
+    if (name) treeNode.name = name.slice(0, 100);
+    if (rawValue !== undefined && rawValue !== '') treeNode.value = String(rawValue).slice(0, 100);
+    const states = getStates(node);
+    if (states.length > 0) treeNode.states = states;
+    if (elementId !== undefined) treeNode.elementId = elementId;
+    if (children.length > 0) treeNode.children = children;
+
+    return [treeNode];
+  };
+
+  return roots.flatMap(convert);
+}
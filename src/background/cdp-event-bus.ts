@@ -0,0 +1,135 @@
+export interface CDPEventMap {
+  'Page.domContentEventFired': { timestamp: number };
+  'Page.loadEventFired': { timestamp: number };
+  'Page.frameStartedLoading': { frameId: string };
+  'Page.frameStoppedLoading': { frameId: string };
+  'Page.frameNavigated': { frame: { id: string; parentId?: string; url: string } };
+  'Page.javascriptDialogOpening': {
+    url: string;
+    message: string;
+    type: 'alert' | 'confirm' | 'prompt' | 'beforeunload';
+    hasBrowserHandler: boolean;
+    defaultPrompt?: string;
+  };
+  'Page.javascriptDialogClosed': { result: boolean; userInput: string };
+  'Network.requestWillBeSent': { requestId: string; type?: string; request: { url: string; method: string } };
+  'Network.loadingFinished': { requestId: string };
+  'Network.loadingFailed': { requestId: string; errorText: string };
+}
+
+export type CDPEventName = keyof CDPEventMap;
+
+// 정확한 메서드명('Page.loadEventFired'), 도메인('Page') 또는 '*'(전체)로 구독할 수 있다
+export type CDPEventParams<M extends string> = M extends CDPEventName ? CDPEventMap[M] : any;
+
+export type CDPEventListener<M extends string = string> = (params: CDPEventParams<M>, method: string) => void;
+
+export class CDPEventBus {
+  private tabId: number;
+  private listeners: Map<string, Set<CDPEventListener<any>>> = new Map();
+  private pendingWaits: Set<(error: Error) => void> = new Set();
+  private attached: boolean = false;
+
+  constructor(tabId: number) {
+    this.tabId = tabId;
+  }
+
+  attach(): void {
+    if (this.attached) return;
+    chrome.debugger.onEvent.addListener(this.handleEvent);
+    this.attached = true;
+  }
+
+  dispose(): void {
+    if (this.attached) {
+      chrome.debugger.onEvent.removeListener(this.handleEvent);
+      this.attached = false;
+    }
+
+    const listenerCount = Array.from(this.listeners.values()).reduce((sum, set) => sum + set.size, 0);
+    console.log(`[CDPEventBus] Disposing ${listenerCount} listeners and ${this.pendingWaits.size} pending waits for tab ${this.tabId}`);
+
+    this.listeners.clear();
+    Array.from(this.pendingWaits).forEach(reject => reject(new Error('CDP session disconnected')));
+    this.pendingWaits.clear();
+  }
+
+  on<M extends string>(filter: M, listener: CDPEventListener<M>): () => void {
+    let set = this.listeners.get(filter);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(filter, set);
+    }
+    set.add(listener);
+
+    return () => this.off(filter, listener);
+  }
+
+  off<M extends string>(filter: M, listener: CDPEventListener<M>): void {
+    const set = this.listeners.get(filter);
+    if (!set) return;
+
+    set.delete(listener);
+    if (set.size === 0) {
+      this.listeners.delete(filter);
+    }
+  }
+
+  waitForEvent<M extends string>(
+    method: M,
+    predicate?: (params: CDPEventParams<M>) => boolean,
+    timeout: number = 10000
+  ): Promise<CDPEventParams<M>> {
+    if (!this.attached) {
+      return Promise.reject(new Error('CDP session not connected'));
+    }
+
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        clearTimeout(timer);
+        unsubscribe();
+        this.pendingWaits.delete(fail);
+      };
+
+      const fail = (error: Error) => {
+        cleanup();
+        reject(error);
+      };
+
+      const unsubscribe = this.on(method, (params) => {
+        try {
+          if (predicate && !predicate(params)) return;
+        } catch (error) {
+          fail(error instanceof Error ? error : new Error(String(error)));
+          return;
+        }
+        cleanup();
+        resolve(params);
+      });
+
+      const timer = setTimeout(() => {
+        fail(new Error(`Timed out after ${timeout}ms waiting for ${method}`));
+      }, timeout);
+
+      this.pendingWaits.add(fail);
+    });
+  }
+
+  private handleEvent = (source: chrome.debugger.Debuggee, method: string, params?: any) => {
+    if (source.tabId !== this.tabId) return;
+
+    const domain = method.split('.')[0];
+    [method, domain, '*'].forEach(key => {
+      const set = this.listeners.get(key);
+      if (!set) return;
+
+      Array.from(set).forEach(listener => {
+        try {
+          listener(params || {}, method);
+        } catch (error) {
+          console.error(`[CDPEventBus] Listener for ${key} failed on ${method}:`, error);
+        }
+      });
+    });
+  };
+}
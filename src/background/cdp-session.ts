@@ -1,13 +1,49 @@
-import type { AIAction, MarkedElement, ScreenshotData } from '../shared/types';
+import { buildAccessibilityTree, type CDPAXNode } from './accessibility';
+import { CDPEventBus, type CDPEventListener, type CDPEventParams } from './cdp-event-bus';
+import { CoordinateSpace } from './coordinate-space';
+import { DialogHandler } from './dialog-handler';
+import { downscaleImage } from './image-pipeline';
+import { buildKeyEvents, isMacPlatform } from './keyboard';
+import { PageLoadWaiter } from './page-load-waiter';
+import { fileStore, type StagedFile } from '../shared/file-store';
+import type { Point } from '../shared/coordinates';
+import { settings } from '../shared/settings';
+import type { AIAction, AXTreeNode, DialogEvent, JavaScriptDialog, MarkedElement, PageLoadWaitOptions, PageLoadWaitResult, ScreenshotData } from '../shared/types';
+
+// content script의 ElementMarker가 읽는 속성
+const LISTENER_ATTRIBUTE = 'data-voyager-listener';
+const CLICK_EVENT_TYPES = ['click', 'mousedown', 'mouseup', 'pointerdown', 'pointerup'];
+// 화면 면적의 이 비율보다 큰 요소의 리스너는 이벤트 위임으로 보고 검사하지 않는다
+const MAX_LISTENER_AREA_RATIO = 0.5;
+
+// CDP DOM.getDocument(pierce: true)가 반환하는 DOM.Node 중 사용하는 필드
+interface CDPDOMNode {
+  nodeId: number;
+  backendNodeId: number;
+  nodeName: string;
+  attributes?: string[];
+  shadowRootType?: 'user-agent' | 'open' | 'closed';
+  children?: CDPDOMNode[];
+  shadowRoots?: CDPDOMNode[];
+  contentDocument?: CDPDOMNode;
+}
 
 export class CDPSession {
   private tabId: number;
   private connected: boolean = false;
   private debuggee: chrome.debugger.Debuggee;
+  private eventBus: CDPEventBus;
+  private pageLoadWaiter: PageLoadWaiter;
+  private dialogHandler: DialogHandler;
+  private coordinateSpace: CoordinateSpace;
 
   constructor(tabId: number) {
     this.tabId = tabId;
     this.debuggee = { tabId };
+    this.eventBus = new CDPEventBus(tabId);
+    this.pageLoadWaiter = new PageLoadWaiter(this.eventBus);
+    this.dialogHandler = new DialogHandler(this.eventBus, (method, params) => this.sendCommand(method, params));
+    this.coordinateSpace = new CoordinateSpace(tabId, (method, params) => this.sendCommand(method, params));
   }
 
   async connect(): Promise<void> {
@@ -21,12 +57,25 @@ export class CDPSession {
       
       await chrome.debugger.attach(this.debuggee, '1.3');
       this.connected = true;
+      this.eventBus.attach();
+      this.dialogHandler.start();
       
       await this.sendCommand('Page.enable');
+      await this.sendCommand('Network.enable');
+      
+      const { frameTree } = await this.sendCommand('Page.getFrameTree');
+      const { result } = await this.sendCommand('Runtime.evaluate', {
+        expression: 'document.readyState',
+        returnByValue: true
+      });
+      this.pageLoadWaiter.start(result?.value || 'complete', frameTree?.frame?.id || null);
       
       console.log(`[CDPSession] Successfully connected to tab: ${this.tabId}`);
     } catch (error) {
       console.error(`[CDPSession] Failed to connect to tab ${this.tabId}:`, error);
+      this.pageLoadWaiter.stop();
+      this.dialogHandler.stop();
+      this.eventBus.dispose();
       this.connected = false;
       throw error;
     }
@@ -36,6 +85,9 @@ export class CDPSession {
     if (this.connected) {
       try {
         console.log(`[CDPSession] Disconnecting from tab: ${this.tabId}`);
+        this.pageLoadWaiter.stop();
+        this.dialogHandler.stop();
+        this.eventBus.dispose();
         await chrome.debugger.detach(this.debuggee);
         this.connected = false;
       } catch (error) {
@@ -44,26 +96,99 @@ export class CDPSession {
     }
   }
 
+  onDetached(): void {
+    console.log(`[CDPSession] Debugger detached from tab: ${this.tabId}`);
+    this.pageLoadWaiter.stop();
+    this.dialogHandler.stop();
+    this.eventBus.dispose();
+    this.connected = false;
+  }
+
   isConnected(): boolean {
     return this.connected;
   }
 
+  on<M extends string>(filter: M, listener: CDPEventListener<M>): () => void {
+    return this.eventBus.on(filter, listener);
+  }
+
+  off<M extends string>(filter: M, listener: CDPEventListener<M>): void {
+    this.eventBus.off(filter, listener);
+  }
+
+  waitForEvent<M extends string>(
+    method: M,
+    predicate?: (params: CDPEventParams<M>) => boolean,
+    timeout?: number
+  ): Promise<CDPEventParams<M>> {
+    return this.eventBus.waitForEvent(method, predicate, timeout);
+  }
+
+  async waitForPageLoad(options: PageLoadWaitOptions): Promise<PageLoadWaitResult> {
+    if (!this.connected) {
+      throw new Error('CDP session not connected');
+    }
+
+    return await this.pageLoadWaiter.waitFor(options);
+  }
+
+  getPendingDialog(): JavaScriptDialog | null {
+    return this.dialogHandler.getPendingDialog();
+  }
+
+  drainDialogEvents(): DialogEvent[] {
+    return this.dialogHandler.drainEvents();
+  }
+
   async captureScreenshot(): Promise<ScreenshotData> {
     if (!this.connected) {
       throw new Error('CDP session not connected');
     }
 
+    // 대화상자가 열려 있으면 Page.captureScreenshot이 응답하지 않는다
+    const dialog = this.dialogHandler.getPendingDialog();
+    if (dialog) {
+      throw new Error(`A JavaScript ${dialog.type} dialog is open: "${dialog.message}"`);
+    }
+
     try {
-      const result = await this.sendCommand('Page.captureScreenshot', {
-        format: 'png',
-        quality: 80,
+      const options = await settings.getScreenshotOptions();
+      const viewport = await this.coordinateSpace.getViewportMetrics();
+
+      const params: Record<string, unknown> = {
+        format: options.format,
         captureBeyondViewport: false
-      });
+      };
+      if (options.format !== 'png') {
+        params.quality = options.quality;
+      }
+      if (options.clipToViewport) {
+        // 스크롤바를 제외한 visual viewport 영역만 캡처
+        const { cssVisualViewport } = await this.sendCommand('Page.getLayoutMetrics');
+        params.clip = {
+          x: cssVisualViewport.pageX,
+          y: cssVisualViewport.pageY,
+          width: cssVisualViewport.clientWidth,
+          height: cssVisualViewport.clientHeight,
+          scale: 1
+        };
+      }
+
+      const result = await this.sendCommand('Page.captureScreenshot', params);
+      const image = await downscaleImage(result.data, options.format, options.maxLongEdge, options.quality);
+      // clip 캡처는 핀치 배율과 무관하게 CSS 픽셀당 DPR 크기로 렌더링되고, 전체 캡처는 화면에 보이는 그대로다
+      const captureScale = options.clipToViewport ? viewport.devicePixelRatio : viewport.devicePixelRatio * viewport.pinchScale;
+      const scale = captureScale * image.ratio;
+
+      console.log(`[CDPSession] Screenshot ${image.width}x${image.height} ${options.format} (scale ${scale.toFixed(3)}, ${Math.round(image.data.length / 1024)}KB base64)`);
 
       return {
-        data: result.data,
-        width: result.width,
-        height: result.height
+        data: image.data,
+        width: image.width,
+        height: image.height,
+        format: options.format,
+        scale,
+        viewport
       };
     } catch (error) {
       console.error(`[CDPSession] Screenshot capture failed:`, error);
@@ -71,13 +196,16 @@ export class CDPSession {
     }
   }
 
-  async simulateClick(x: number, y: number): Promise<void> {
+  async simulateClick(x: number, y: number, options: { button?: 'left' | 'right' | 'middle'; clickCount?: number } = {}): Promise<void> {
     if (!this.connected) {
       throw new Error('CDP session not connected');
     }
 
+    const button = options.button || 'left';
+    const clickCount = options.clickCount || 1;
+
     try {
-      console.log(`[CDPSession] Simulating click at (${x}, ${y})`);
+      console.log(`[CDPSession] Simulating ${button} click (x${clickCount}) at (${x}, ${y})`);
       
       await this.sendCommand('Input.dispatchMouseEvent', {
         type: 'mouseMoved',
@@ -87,28 +215,109 @@ export class CDPSession {
         clickCount: 0
       });
 
+      // 더블 클릭은 clickCount 1, 2의 press/release 쌍을 순서대로 보내야 dblclick 이벤트가 발생한다
+      for (let count = 1; count <= clickCount; count++) {
+        await this.sendCommand('Input.dispatchMouseEvent', {
+          type: 'mousePressed',
+          x: Math.round(x),
+          y: Math.round(y),
+          button,
+          clickCount: count
+        });
+
+        await this.wait(50);
+
+        await this.sendCommand('Input.dispatchMouseEvent', {
+          type: 'mouseReleased',
+          x: Math.round(x),
+          y: Math.round(y),
+          button,
+          clickCount: count
+        });
+      }
+
+      console.log(`[CDPSession] Click completed at (${x}, ${y})`);
+    } catch (error) {
+      console.error(`[CDPSession] Click simulation failed:`, error);
+      throw new Error(`Click simulation failed: ${error}`);
+    }
+  }
+
+  async simulateHover(x: number, y: number): Promise<void> {
+    if (!this.connected) {
+      throw new Error('CDP session not connected');
+    }
+
+    try {
+      console.log(`[CDPSession] Hovering at (${x}, ${y})`);
+      
       await this.sendCommand('Input.dispatchMouseEvent', {
-        type: 'mousePressed',
+        type: 'mouseMoved',
         x: Math.round(x),
         y: Math.round(y),
+        button: 'none',
+        clickCount: 0
+      });
+      
+      // hover 메뉴가 열릴 시간을 준다
+      await this.wait(300);
+    } catch (error) {
+      console.error(`[CDPSession] Hover simulation failed:`, error);
+      throw new Error(`Hover simulation failed: ${error}`);
+    }
+  }
+
+  async simulateDrag(fromX: number, fromY: number, toX: number, toY: number, steps: number = 10): Promise<void> {
+    if (!this.connected) {
+      throw new Error('CDP session not connected');
+    }
+
+    try {
+      console.log(`[CDPSession] Dragging from (${fromX}, ${fromY}) to (${toX}, ${toY})`);
+      
+      await this.sendCommand('Input.dispatchMouseEvent', {
+        type: 'mouseMoved',
+        x: Math.round(fromX),
+        y: Math.round(fromY),
+        button: 'none',
+        clickCount: 0
+      });
+
+      await this.sendCommand('Input.dispatchMouseEvent', {
+        type: 'mousePressed',
+        x: Math.round(fromX),
+        y: Math.round(fromY),
         button: 'left',
+        buttons: 1,
         clickCount: 1
       });
 
-      await this.wait(50);
+      // 드래그 라이브러리가 이동 임계값을 넘었다고 판단하도록 중간 mouseMoved 이벤트를 보낸다
+      for (let i = 1; i <= steps; i++) {
+        await this.sendCommand('Input.dispatchMouseEvent', {
+          type: 'mouseMoved',
+          x: Math.round(fromX + (toX - fromX) * i / steps),
+          y: Math.round(fromY + (toY - fromY) * i / steps),
+          button: 'left',
+          buttons: 1,
+          clickCount: 0
+        });
+        await this.wait(16);
+      }
 
       await this.sendCommand('Input.dispatchMouseEvent', {
         type: 'mouseReleased',
-        x: Math.round(x),
-        y: Math.round(y),
+        x: Math.round(toX),
+        y: Math.round(toY),
         button: 'left',
+        buttons: 0,
         clickCount: 1
       });
 
-      console.log(`[CDPSession] Click completed at (${x}, ${y})`);
+      console.log(`[CDPSession] Drag completed`);
     } catch (error) {
-      console.error(`[CDPSession] Click simulation failed:`, error);
-      throw new Error(`Click simulation failed: ${error}`);
+      console.error(`[CDPSession] Drag simulation failed:`, error);
+      throw new Error(`Drag simulation failed: ${error}`);
     }
   }
 
@@ -129,6 +338,30 @@ export class CDPSession {
     }
   }
 
+  async pressKey(chord: string): Promise<void> {
+    if (!this.connected) {
+      throw new Error('CDP session not connected');
+    }
+
+    try {
+      console.log(`[CDPSession] Pressing key: ${chord}`);
+      
+      const events = buildKeyEvents(chord, await isMacPlatform());
+      for (const event of events) {
+        await this.sendCommand('Input.dispatchKeyEvent', event);
+      }
+      
+      console.log(`[CDPSession] Key press completed`);
+    } catch (error) {
+      console.error(`[CDPSession] Key press failed:`, error);
+      throw new Error(`Key press failed: ${error}`);
+    }
+  }
+
+  async selectAll(): Promise<void> {
+    await this.pressKey('Mod+a');
+  }
+
   async simulateScroll(direction: 'up' | 'down', amount: number = 300, x?: number, y?: number): Promise<void> {
     if (!this.connected) {
       throw new Error('CDP session not connected');
@@ -136,8 +369,14 @@ export class CDPSession {
 
     try {
       const deltaY = direction === 'down' ? amount : -amount;
-      const scrollX = x !== undefined ? x : 400;
-      const scrollY = y !== undefined ? y : 300;
+      let scrollX = x;
+      let scrollY = y;
+      if (scrollX === undefined || scrollY === undefined) {
+        // 좌표가 없으면 visual viewport 중앙에서 스크롤
+        const metrics = await this.coordinateSpace.getViewportMetrics();
+        scrollX = metrics.width / 2;
+        scrollY = metrics.height / 2;
+      }
       
       console.log(`[CDPSession] Scrolling ${direction} by ${Math.abs(deltaY)}px at position (${scrollX}, ${scrollY})`);
       
@@ -156,85 +395,379 @@ export class CDPSession {
     }
   }
 
+  async navigateHistory(delta: number): Promise<void> {
+    if (!this.connected) {
+      throw new Error('CDP session not connected');
+    }
+
+    const history = await this.sendCommand('Page.getNavigationHistory');
+    const targetIndex = history.currentIndex + delta;
+    
+    if (targetIndex < 0 || targetIndex >= history.entries.length) {
+      throw new Error(`No ${delta < 0 ? 'previous' : 'next'} page in history`);
+    }
+    
+    const entry = history.entries[targetIndex];
+    console.log(`[CDPSession] Navigating history to entry ${entry.id}: ${entry.url}`);
+    await this.sendCommand('Page.navigateToHistoryEntry', { entryId: entry.id });
+  }
+
+  async reload(): Promise<void> {
+    if (!this.connected) {
+      throw new Error('CDP session not connected');
+    }
+
+    console.log(`[CDPSession] Reloading tab: ${this.tabId}`);
+    await this.sendCommand('Page.reload', { ignoreCache: false });
+  }
+
+  // content script가 마킹한 요소(data-voyager-element-id)를 CDP backend node로 변환
+  async resolveMarkedElement(elementId: number): Promise<{ nodeId: number; backendNodeId: number; nodeName: string; attributes: string[] }> {
+    if (!this.connected) {
+      throw new Error('CDP session not connected');
+    }
+
+    // pierce: true로 같은 프로세스의 iframe 문서와 shadow root까지 포함한 트리를 받아 각 root에서 검색한다
+    const { root } = await this.sendCommand('DOM.getDocument', { depth: -1, pierce: true });
+    const selector = `[data-voyager-element-id="${elementId}"]`;
+    
+    let nodeId = 0;
+    for (const rootNodeId of this.collectQueryRootNodeIds(root)) {
+      const result = await this.sendCommand('DOM.querySelector', { nodeId: rootNodeId, selector });
+      if (result?.nodeId) {
+        nodeId = result.nodeId;
+        break;
+      }
+    }
+    
+    if (!nodeId) {
+      throw new Error(`Element with id ${elementId} not found in DOM`);
+    }
+    
+    const { node } = await this.sendCommand('DOM.describeNode', { nodeId });
+    return {
+      nodeId,
+      backendNodeId: node.backendNodeId,
+      nodeName: node.nodeName,
+      attributes: node.attributes || []
+    };
+  }
+
+  // 요소가 이미 보이면 스크롤하지 않고, 보이지 않으면 화면 가운데로 가져온다
+  async scrollIntoView(elementId: number): Promise<void> {
+    const { nodeId } = await this.resolveMarkedElement(elementId);
+    await this.sendCommand('DOM.scrollIntoViewIfNeeded', { nodeId });
+    console.log(`[CDPSession] Scrolled element ${elementId} into view`);
+  }
+
+  async getAccessibilityTree(): Promise<AXTreeNode[]> {
+    if (!this.connected) {
+      throw new Error('CDP session not connected');
+    }
+
+    await this.sendCommand('Accessibility.enable');
+    const { nodes } = await this.sendCommand('Accessibility.getFullAXTree') as { nodes: CDPAXNode[] };
+    
+    // 마킹된 요소(data-voyager-element-id)의 backend node를 찾아 AX 노드와 요소 번호를 연결
+    const { root } = await this.sendCommand('DOM.getDocument', { depth: -1, pierce: true });
+    const elementIdsByBackendNode = new Map<number, number>();
+    this.collectMarkedBackendNodes(root, elementIdsByBackendNode);
+    
+    const tree = buildAccessibilityTree(nodes, elementIdsByBackendNode);
+    console.log(`[CDPSession] Built accessibility tree from ${nodes.length} AX nodes (${elementIdsByBackendNode.size} marked elements)`);
+    return tree;
+  }
+
+  // content script는 addEventListener로 등록된 리스너를 볼 수 없으므로, CDP로 click/mousedown 리스너가 있는
+  // 요소를 찾아 속성으로 표시해 둔다. 이후 마킹에서 같은 가시성/제외 필터를 거쳐 후보에 포함된다.
+  // 최상위 프레임의 뷰포트 안 요소 중 선택자로 잡히지 않는 것만 검사한다.
+  // React 등은 루트 컨테이너에 click 리스너를 위임하므로 화면 대부분을 덮는 요소는 제외하고,
+  // 작은 요소부터 검사한 뒤 다른 리스너 요소를 감싸는 요소는 위임으로 보고 표시를 지운다
+  async tagEventListenerElements(maxCandidates: number = 300): Promise<number> {
+    if (!this.connected) {
+      throw new Error('CDP session not connected');
+    }
+
+    const objectGroup = 'voyager-listener-scan';
+    try {
+      const { result } = await this.sendCommand('Runtime.evaluate', {
+        objectGroup,
+        expression: `(() => {
+          const attribute = '${LISTENER_ATTRIBUTE}';
+          const interactive = 'a[href], button, input, textarea, select, [onclick], [role], [tabindex]';
+          const elements = [];
+          const walk = (root) => {
+            root.querySelectorAll('*').forEach(element => {
+              elements.push(element);
+              if (element.shadowRoot) walk(element.shadowRoot);
+            });
+          };
+          walk(document);
+          const maxArea = innerWidth * innerHeight * ${MAX_LISTENER_AREA_RATIO};
+          const candidates = [];
+          for (const element of elements) {
+            element.removeAttribute(attribute);
+            if (element.matches(interactive)) continue;
+            const rect = element.getBoundingClientRect();
+            if (rect.width < 10 || rect.height < 10 || rect.bottom < 0 || rect.right < 0 ||
+                rect.top > innerHeight || rect.left > innerWidth) continue;
+            const area = rect.width * rect.height;
+            if (area > maxArea) continue;
+            candidates.push({ element, area });
+          }
+          return candidates
+            .sort((a, b) => a.area - b.area)
+            .slice(0, ${maxCandidates})
+            .map(candidate => candidate.element);
+        })()`
+      });
+      if (!result?.objectId) return 0;
+
+      const { result: properties } = await this.sendCommand('Runtime.getProperties', {
+        objectId: result.objectId,
+        ownProperties: true
+      });
+
+      let tagged = 0;
+      for (const property of properties as Array<{ name: string; value?: { objectId?: string } }>) {
+        const objectId = property.value?.objectId;
+        if (!/^\d+$/.test(property.name) || !objectId) continue;
+
+        const { listeners } = await this.sendCommand('DOMDebugger.getEventListeners', { objectId });
+        const types = Array.from(new Set((listeners as Array<{ type: string }>)
+          .map(listener => listener.type)
+          .filter(type => CLICK_EVENT_TYPES.includes(type))));
+        if (types.length === 0) continue;
+
+        await this.sendCommand('Runtime.callFunctionOn', {
+          objectId,
+          functionDeclaration: 'function(attribute, types) { this.setAttribute(attribute, types); }',
+          arguments: [{ value: LISTENER_ATTRIBUTE }, { value: types.join(',') }]
+        });
+        tagged++;
+      }
+
+      const { result: delegated } = await this.sendCommand('Runtime.evaluate', {
+        objectGroup,
+        returnByValue: true,
+        expression: `(() => {
+          const attribute = '${LISTENER_ATTRIBUTE}';
+          const tagged = [];
+          const walk = (root) => {
+            root.querySelectorAll('*').forEach(element => {
+              if (element.hasAttribute(attribute)) tagged.push(element);
+              if (element.shadowRoot) walk(element.shadowRoot);
+            });
+          };
+          walk(document);
+          const containers = tagged.filter(element => tagged.some(other => other !== element && element.contains(other)));
+          containers.forEach(element => element.removeAttribute(attribute));
+          return containers.length;
+        })()`
+      });
+      tagged -= delegated?.value || 0;
+
+      console.log(`[CDPSession] Tagged ${tagged} elements with click listeners (${delegated?.value || 0} delegating containers skipped)`);
+      return tagged;
+    } finally {
+      await this.sendCommand('Runtime.releaseObjectGroup', { objectGroup }).catch(() => {});
+    }
+  }
+
+  private collectMarkedBackendNodes(node: CDPDOMNode, result: Map<number, number>): void {
+    const id = this.getNodeAttribute(node, 'data-voyager-element-id');
+    if (id !== undefined) {
+      result.set(node.backendNodeId, parseInt(id));
+    }
+    
+    [
+      ...(node.children || []),
+      ...(node.shadowRoots || []),
+      ...(node.contentDocument ? [node.contentDocument] : [])
+    ].forEach(child => this.collectMarkedBackendNodes(child, result));
+  }
+
+  // DOM.Node.attributes는 [name1, value1, name2, value2, ...] 형태이므로 이름 자리(짝수 위치)만 비교한다
+  private getNodeAttribute(node: Pick<CDPDOMNode, 'attributes'>, name: string): string | undefined {
+    const attributes: string[] = node.attributes || [];
+    for (let i = 0; i < attributes.length - 1; i += 2) {
+      if (attributes[i] === name) return attributes[i + 1];
+    }
+    return undefined;
+  }
+
+  private collectQueryRootNodeIds(node: CDPDOMNode): number[] {
+    const nodeIds: number[] = [];
+    // '#document-fragment'는 shadow root (closed shadow root는 content script도 마킹하지 않는다)
+    if (node.nodeName === '#document' || (node.nodeName === '#document-fragment' && node.shadowRootType === 'open')) {
+      nodeIds.push(node.nodeId);
+    }
+    
+    const children = [
+      ...(node.children || []),
+      ...(node.shadowRoots || []),
+      ...(node.contentDocument ? [node.contentDocument] : [])
+    ];
+    children.forEach(child => nodeIds.push(...this.collectQueryRootNodeIds(child)));
+    return nodeIds;
+  }
+
+  async uploadFiles(elementId: number, files: StagedFile[]): Promise<void> {
+    if (files.length === 0) {
+      throw new Error('No staged files to upload. Add files in the side panel first.');
+    }
+
+    const node = await this.resolveMarkedElement(elementId);
+    const inputType = this.getNodeAttribute(node, 'type')?.toLowerCase() ?? '';
+    if (node.nodeName !== 'INPUT' || inputType !== 'file') {
+      throw new Error(`Element ${elementId} is not a file input`);
+    }
+
+    console.log(`[CDPSession] Uploading ${files.length} file(s) to element ${elementId}:`, files.map(f => f.name));
+
+    if (files.every(file => file.path)) {
+      await this.sendCommand('DOM.setFileInputFiles', {
+        files: files.map(file => file.path),
+        backendNodeId: node.backendNodeId
+      });
+      return;
+    }
+
+    if (!files.every(file => file.data)) {
+      throw new Error('Cannot upload local paths and in-extension files together');
+    }
+
+    // DOM.setFileInputFiles는 로컬 경로만 받으므로 확장 내부 파일은 DataTransfer로 주입
+    const { object } = await this.sendCommand('DOM.resolveNode', { backendNodeId: node.backendNodeId });
+    await this.sendCommand('Runtime.callFunctionOn', {
+      objectId: object.objectId,
+      functionDeclaration: `function(files) {
+        const dataTransfer = new DataTransfer();
+        for (const file of files) {
+          const bytes = Uint8Array.from(atob(file.data), c => c.charCodeAt(0));
+          dataTransfer.items.add(new File([bytes], file.name, { type: file.type }));
+        }
+        this.files = dataTransfer.files;
+        this.dispatchEvent(new Event('input', { bubbles: true }));
+        this.dispatchEvent(new Event('change', { bubbles: true }));
+      }`,
+      arguments: [{ value: files.map(({ name, type, data }) => ({ name, type, data })) }]
+    });
+  }
+
   async executeAction(action: AIAction, elements?: MarkedElement[]): Promise<void> {
     console.log(`[CDPSession] Executing action:`, action);
+    
+    const dialog = this.dialogHandler.getPendingDialog();
+    if (dialog && action.type !== 'handle_dialog') {
+      throw new Error(`A JavaScript ${dialog.type} dialog is open: "${dialog.message}". Handle it first.`);
+    }
+    
+    // 대화상자가 열리면 입력 명령이 대화상자가 닫힐 때까지 반환되지 않으므로,
+    // 'model' 정책으로 보류된 경우 액션 완료를 기다리지 않고 반환한다
+    let unsubscribe = () => {};
+    const dialogOpened = new Promise<void>(resolve => {
+      unsubscribe = this.dialogHandler.onPendingDialog(() => resolve());
+    });
+    const run = this.runAction(action, elements);
+    run.catch(error => console.warn(`[CDPSession] Action settled after dialog opened:`, error));
+    
+    try {
+      await Promise.race([run, dialogOpened]);
+    } finally {
+      unsubscribe();
+    }
+  }
+
+  private async runAction(action: AIAction, elements?: MarkedElement[]): Promise<void> {
     switch(action.type) {
-      case 'click':
-        if (action.elementId !== undefined && elements) {
-          const element = elements.find(el => el.id === action.elementId);
-          console.log(`[CDPSession] Element:`, element);
-          if (!element) {
-            throw new Error(`Element with id ${action.elementId} not found`);
-          }
+      case 'handle_dialog':
+        await this.dialogHandler.respond({
+          accept: action.accept ?? true,
+          promptText: action.text
+        });
+        break;
 
-          console.log(`[CDPSession] Element rect:`, element.rect);
-          
-          const x = element.rect.left + element.rect.width / 2;
-          const y = element.rect.top + element.rect.height / 2;
-          console.log(`[CDPSession] Clicking element at (${x}, ${y})`);
-          await this.simulateClick(x, y);
-        } else if (action.x !== undefined && action.y !== undefined) {
-          await this.simulateClick(action.x, action.y);
+      case 'click':
+      case 'double_click':
+      case 'right_click':
+      case 'hover': {
+        const point = await this.resolvePoint(action.elementId, action.x, action.y, elements);
+        if (!point) {
+          throw new Error(`${action.type} action requires either elementId or x,y coordinates`);
+        }
+        
+        console.log(`[CDPSession] ${action.type} at (${point.x}, ${point.y})`);
+        if (action.type === 'hover') {
+          await this.simulateHover(point.x, point.y);
+        } else if (action.type === 'double_click') {
+          await this.simulateClick(point.x, point.y, { clickCount: 2 });
+        } else if (action.type === 'right_click') {
+          await this.simulateClick(point.x, point.y, { button: 'right' });
         } else {
-          throw new Error('Click action requires either elementId or x,y coordinates');
+          await this.simulateClick(point.x, point.y);
+        }
+        break;
+      }
+
+      case 'drag': {
+        const from = await this.resolvePoint(action.elementId, action.x, action.y, elements);
+        const to = await this.resolvePoint(action.targetElementId, action.toX, action.toY, elements);
+        if (!from || !to) {
+          throw new Error('Drag action requires a source and a target (elementId or x,y coordinates)');
         }
+        await this.simulateDrag(from.x, from.y, to.x, to.y);
         break;
+      }
 
       case 'type':
-        if (action.elementId && elements && action.text) {
-          const element = elements.find(el => el.id === action.elementId);
-          if (!element) {
-            throw new Error(`Element with id ${action.elementId} not found`);
-          }
-          
-          const x = element.rect.left + element.rect.width / 2;
-          const y = element.rect.top + element.rect.height / 2;
-          await this.simulateClick(x, y);
+        if (action.elementId !== undefined && elements && action.text) {
+          const point = await this.resolvePoint(action.elementId, undefined, undefined, elements);
+          await this.simulateClick(point!.x, point!.y);
           
           await this.wait(100);
-          await this.sendCommand('Input.dispatchKeyEvent', {
-            type: 'keyDown',
-            key: 'Meta'
-          });
-          await this.sendCommand('Input.dispatchKeyEvent', {
-            type: 'keyDown',
-            key: 'a'
-          });
-          await this.sendCommand('Input.dispatchKeyEvent', {
-            type: 'keyUp',
-            key: 'a'
-          });
-          await this.sendCommand('Input.dispatchKeyEvent', {
-            type: 'keyUp',
-            key: 'Meta'
-          });
+          await this.selectAll();
           
           await this.simulateType(action.text);
+          if (action.submit) {
+            await this.pressKey('Enter');
+          }
         } else if (action.text) {
           await this.simulateType(action.text);
+          if (action.submit) {
+            await this.pressKey('Enter');
+          }
         } else {
           throw new Error('Type action requires text and optionally elementId');
         }
         break;
 
+      case 'upload': {
+        if (action.elementId === undefined) {
+          throw new Error('Upload action requires elementId');
+        }
+        const files = await fileStore.getFiles(action.files);
+        await this.uploadFiles(action.elementId, files);
+        break;
+      }
+
+      case 'press':
+        if (!action.key) {
+          throw new Error('Press action requires key');
+        }
+        await this.pressKey(action.key);
+        break;
+
       case 'scroll':
         if (!action.direction) {
           throw new Error('Scroll action requires direction');
         }
         
         // 특정 요소 스크롤 또는 특정 위치에서 스크롤
-        if (action.elementId !== undefined && elements) {
-          const element = elements.find(el => el.id === action.elementId);
-          if (!element) {
-            throw new Error(`Element with id ${action.elementId} not found`);
-          }
-          // 요소의 중앙에서 스크롤
-          const x = element.rect.left + element.rect.width / 2;
-          const y = element.rect.top + element.rect.height / 2;
-          await this.simulateScroll(action.direction, action.amount || 300, x, y);
-        } else if (action.x !== undefined && action.y !== undefined) {
-          // 지정된 좌표에서 스크롤
-          await this.simulateScroll(action.direction, action.amount || 300, action.x, action.y);
+        const scrollPoint = await this.resolvePoint(action.elementId, action.x, action.y, elements);
+        if (scrollPoint) {
+          // 요소의 중앙 또는 지정된 좌표에서 스크롤
+          await this.simulateScroll(action.direction, action.amount || 300, scrollPoint.x, scrollPoint.y);
         } else {
           // 페이지 전체 스크롤
           await this.simulateScroll(action.direction, action.amount || 300);
@@ -253,7 +786,22 @@ export class CDPSession {
         }
         await this.sendCommand('Page.navigate', { url: action.url });
         // 페이지 로드 대기
-        await this.wait(3000);
+        await this.pageLoadWaiter.waitFor({ until: 'load' });
+        break;
+
+      case 'back':
+        await this.navigateHistory(-1);
+        await this.pageLoadWaiter.waitFor({ until: 'load' });
+        break;
+
+      case 'forward':
+        await this.navigateHistory(1);
+        await this.pageLoadWaiter.waitFor({ until: 'load' });
+        break;
+
+      case 'reload':
+        await this.reload();
+        await this.pageLoadWaiter.waitFor({ until: 'load' });
         break;
 
       case 'done':
@@ -265,6 +813,30 @@ export class CDPSession {
     }
   }
 
+  // 요소 rect와 x,y는 viewport(CSS) 좌표이므로 Input 이벤트 좌표로 변환해 반환한다
+  private async resolvePoint(
+    elementId: number | undefined,
+    x: number | undefined,
+    y: number | undefined,
+    elements?: MarkedElement[]
+  ): Promise<Point | null> {
+    if (elementId !== undefined && elements) {
+      const element = elements.find(el => el.id === elementId);
+      console.log(`[CDPSession] Element:`, element);
+      if (!element) {
+        throw new Error(`Element with id ${elementId} not found`);
+      }
+      
+      return await this.coordinateSpace.getElementInputPoint(element);
+    }
+    
+    if (x !== undefined && y !== undefined) {
+      return await this.coordinateSpace.toInputPoint({ x, y });
+    }
+    
+    return null;
+  }
+
   private async sendCommand(method: string, params?: any): Promise<any> {
     return new Promise((resolve, reject) => {
       chrome.debugger.sendCommand(this.debuggee, method, params, (result) => {
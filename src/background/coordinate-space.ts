@@ -0,0 +1,63 @@
+import { getRectCenter, viewportToInput, type Point } from '../shared/coordinates';
+import type { MarkedElement, ViewportMetrics } from '../shared/types';
+
+type SendCommand = (method: string, params?: any) => Promise<any>;
+
+// 탭의 뷰포트 상태(DPR, 브라우저 줌, 핀치 줌)를 읽어 좌표 공간 사이를 변환한다
+export class CoordinateSpace {
+  private tabId: number;
+  private sendCommand: SendCommand;
+
+  constructor(tabId: number, sendCommand: SendCommand) {
+    this.tabId = tabId;
+    this.sendCommand = sendCommand;
+  }
+
+  async getViewportMetrics(): Promise<ViewportMetrics> {
+    const [layoutMetrics, pageMetrics, zoom] = await Promise.all([
+      this.sendCommand('Page.getLayoutMetrics'),
+      this.getContentMetrics(),
+      chrome.tabs.getZoom(this.tabId).catch(() => 1)
+    ]);
+    const visual = layoutMetrics.cssVisualViewport;
+
+    // content script가 없는 페이지에서는 CDP 값만으로 계산
+    const metrics: ViewportMetrics = {
+      devicePixelRatio: pageMetrics?.devicePixelRatio ?? this.estimateDevicePixelRatio(layoutMetrics),
+      zoom,
+      pinchScale: pageMetrics?.pinchScale ?? visual.scale ?? 1,
+      offsetX: pageMetrics?.offsetX ?? visual.offsetX ?? 0,
+      offsetY: pageMetrics?.offsetY ?? visual.offsetY ?? 0,
+      width: pageMetrics?.width ?? visual.clientWidth,
+      height: pageMetrics?.height ?? visual.clientHeight
+    };
+
+    console.log(`[CoordinateSpace] Viewport metrics:`, metrics);
+    return metrics;
+  }
+
+  async toInputPoint(point: Point, metrics?: ViewportMetrics): Promise<Point> {
+    return viewportToInput(point, metrics || await this.getViewportMetrics());
+  }
+
+  async getElementInputPoint(element: MarkedElement, metrics?: ViewportMetrics): Promise<Point> {
+    return this.toInputPoint(getRectCenter(element.rect), metrics);
+  }
+
+  private async getContentMetrics(): Promise<Omit<ViewportMetrics, 'zoom'> | null> {
+    try {
+      const response = await chrome.tabs.sendMessage(this.tabId, { type: 'GET_VIEWPORT_METRICS' }, { frameId: 0 });
+      return response?.success ? response.metrics : null;
+    } catch (error) {
+      console.warn(`[CoordinateSpace] Content script did not report viewport metrics:`, error);
+      return null;
+    }
+  }
+
+  // 더 이상 권장되지 않는 visualViewport 값은 장치 픽셀 단위이므로 CSS 값과의 비율이 DPR이다
+  private estimateDevicePixelRatio(layoutMetrics: any): number {
+    const deviceWidth = layoutMetrics.visualViewport?.clientWidth;
+    const cssWidth = layoutMetrics.cssVisualViewport?.clientWidth;
+    return deviceWidth && cssWidth ? deviceWidth / cssWidth : 1;
+  }
+}
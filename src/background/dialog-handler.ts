@@ -0,0 +1,148 @@
+import type { CDPEventBus, CDPEventParams } from './cdp-event-bus';
+import { settings } from '../shared/settings';
+import type { DialogDecision, DialogEvent, DialogPolicy, JavaScriptDialog } from '../shared/types';
+
+type SendCommand = (method: string, params?: any) => Promise<any>;
+
+export class DialogHandler {
+  private eventBus: CDPEventBus;
+  private sendCommand: SendCommand;
+  private pendingDialog: JavaScriptDialog | null = null;
+  private events: DialogEvent[] = [];
+  private pendingListeners: Set<(dialog: JavaScriptDialog) => void> = new Set();
+  private unsubscribers: Array<() => void> = [];
+  private askTimeout: number = 60000;
+
+  constructor(eventBus: CDPEventBus, sendCommand: SendCommand) {
+    this.eventBus = eventBus;
+    this.sendCommand = sendCommand;
+  }
+
+  start(): void {
+    if (this.unsubscribers.length > 0) return;
+
+    this.unsubscribers = [
+      this.eventBus.on('Page.javascriptDialogOpening', (params) => {
+        this.handleDialogOpening(params).catch(error => {
+          console.error('[DialogHandler] Failed to handle dialog:', error);
+        });
+      }),
+      this.eventBus.on('Page.javascriptDialogClosed', () => {
+        const dialog = this.pendingDialog;
+        this.pendingDialog = null;
+        // 'ask' 정책에서 시간 초과나 페이지 이동으로 닫힌 경우 사이드 패널의 질문을 거둔다
+        if (dialog) {
+          chrome.runtime.sendMessage({ type: 'DIALOG_CLOSED', dialog }).catch(() => {});
+        }
+      })
+    ];
+  }
+
+  stop(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.pendingListeners.clear();
+    this.pendingDialog = null;
+  }
+
+  getPendingDialog(): JavaScriptDialog | null {
+    return this.pendingDialog;
+  }
+
+  drainEvents(): DialogEvent[] {
+    const events = this.events;
+    this.events = [];
+    return events;
+  }
+
+  // 'model' 정책에서 대화상자가 열린 채로 남으면 호출된다
+  onPendingDialog(listener: (dialog: JavaScriptDialog) => void): () => void {
+    this.pendingListeners.add(listener);
+    return () => this.pendingListeners.delete(listener);
+  }
+
+  async respond(decision: DialogDecision, handledBy: DialogPolicy = 'model'): Promise<void> {
+    const dialog = this.pendingDialog;
+    if (!dialog) {
+      throw new Error('No JavaScript dialog is open');
+    }
+
+    await this.sendCommand('Page.handleJavaScriptDialog', {
+      accept: decision.accept,
+      promptText: decision.promptText
+    });
+    this.pendingDialog = null;
+
+    // 'model' 정책으로 보류되었던 기록을 처리 결과로 갱신
+    const pendingEvent = this.events.find(event => event.dialog === dialog && event.outcome === 'pending');
+    const event: DialogEvent = {
+      dialog,
+      outcome: decision.accept ? 'accepted' : 'dismissed',
+      handledBy,
+      promptText: decision.promptText
+    };
+    if (pendingEvent) {
+      Object.assign(pendingEvent, event);
+    } else {
+      this.events.push(event);
+    }
+
+    console.log(`[DialogHandler] ${dialog.type} dialog ${event.outcome} (${handledBy}): "${dialog.message}"`);
+  }
+
+  private async handleDialogOpening(params: CDPEventParams<'Page.javascriptDialogOpening'>): Promise<void> {
+    const dialog: JavaScriptDialog = {
+      type: params.type,
+      message: params.message,
+      url: params.url,
+      defaultPrompt: params.defaultPrompt,
+      openedAt: Date.now()
+    };
+    this.pendingDialog = dialog;
+
+    const policy = await settings.getDialogPolicy();
+    console.log(`[DialogHandler] ${dialog.type} dialog opened (policy: ${policy}): "${dialog.message}"`);
+
+    switch (policy) {
+      case 'accept':
+        await this.respond({ accept: true, promptText: dialog.defaultPrompt }, policy);
+        break;
+
+      case 'dismiss':
+        await this.respond(this.defaultDecision(dialog), policy);
+        break;
+
+      case 'ask':
+        await this.respond(await this.askUser(dialog), policy);
+        break;
+
+      case 'model':
+        this.events.push({ dialog, outcome: 'pending', handledBy: policy });
+        Array.from(this.pendingListeners).forEach(listener => listener(dialog));
+        break;
+    }
+  }
+
+  private async askUser(dialog: JavaScriptDialog): Promise<DialogDecision> {
+    try {
+      const response = await Promise.race([
+        chrome.runtime.sendMessage({ type: 'DIALOG_OPENED', dialog }),
+        new Promise<null>(resolve => setTimeout(() => resolve(null), this.askTimeout))
+      ]);
+
+      if (response && typeof response.accept === 'boolean') {
+        return { accept: response.accept, promptText: response.promptText };
+      }
+      console.warn('[DialogHandler] No answer from side panel, using the default decision');
+    } catch (error) {
+      console.warn('[DialogHandler] Side panel is not available, using the default decision:', error);
+    }
+
+    return this.defaultDecision(dialog);
+  }
+
+  // beforeunload를 취소하면 에이전트가 시작한 이동이나 새로고침이 막히므로 이동은 허용하고, 나머지는 닫는다
+  private defaultDecision(dialog: JavaScriptDialog): DialogDecision {
+    return { accept: dialog.type === 'beforeunload' };
+  }
+}
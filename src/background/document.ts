@@ -1,10 +1,18 @@
-import type { MarkedElement } from '../shared/types';
+import { settings } from '../shared/settings';
+import type { AIAction, ContentExtractOptions, ExtractedContent, FindOptions, FindResult, LocatorCheck, MarkedElement, MarkingMetrics, PageChangeDiff, SelectOption } from '../shared/types';
 
 export class Document {
   private tab: any;
   private elements: MarkedElement[] = [];
   private url: string = '';
   private isMarked: boolean = false;
+  private lastMetrics: MarkingMetrics | null = null;
+  private lastDiff: PageChangeDiff | null = null;
+  // 에이전트 세션 동안에는 id를 재사용하지 않도록 다음에 붙일 번호를 탭 전체에서 관리한다
+  private tracking: boolean = false;
+  private nextId: number = 0;
+  // 다음 마킹에서 바뀐 부분만이 아니라 페이지 전체를 다시 검사한다
+  private fullScanRequested: boolean = false;
 
   constructor(tab: any) {
     this.tab = tab;
@@ -31,15 +39,28 @@ export class Document {
     try {
       console.log(`[Document] Updating elements for tab: ${this.tab.getTabId()}`);
       
-      const response = await chrome.tabs.sendMessage(this.tab.getTabId(), {
-        type: 'GET_ELEMENTS'
-      });
+      const frameIds = await this.getFrameIds();
+      const elements: MarkedElement[] = [];
+      
+      for (const frameId of frameIds) {
+        try {
+          const response = await chrome.tabs.sendMessage(this.tab.getTabId(), {
+            type: 'GET_ELEMENTS'
+          }, { frameId });
+          
+          if (response && response.elements) {
+            elements.push(...response.elements.map((el: MarkedElement) => ({ ...el, frameId })));
+          }
+        } catch (frameError) {
+          if (frameId === 0) throw frameError;
+          console.warn(`[Document] Frame ${frameId} did not respond to GET_ELEMENTS:`, frameError);
+        }
+      }
 
-      if (response && response.elements) {
-        this.elements = response.elements;
-        console.log(`[Document] Found ${this.elements.length} elements`);
+      this.elements = elements;
+      if (this.elements.length > 0) {
+        console.log(`[Document] Found ${this.elements.length} elements in ${frameIds.length} frames`);
       } else {
-        this.elements = [];
         console.warn(`[Document] No elements found in response`);
       }
       
@@ -69,17 +90,28 @@ export class Document {
         throw new Error(`Content scripts cannot run on ${tab.url}. Please navigate to a regular web page (http:// or https://).`);
       }
       
+      if (await settings.getListenerDetection()) {
+        try {
+          await this.tab.tagEventListenerElements();
+        } catch (listenerError) {
+          console.warn(`[Document] Event listener scan failed, marking without it:`, listenerError);
+        }
+      }
+      
       console.log(`[Document] Sending MARK_ELEMENTS to tab ${this.tab.getTabId()}`);
       
       try {
         const response = await chrome.tabs.sendMessage(this.tab.getTabId(), {
-          type: 'MARK_ELEMENTS'
-        });
+          type: 'MARK_ELEMENTS',
+          data: this.markingOptions(this.baseElementId())
+        }, { frameId: 0 });
         
         console.log(`[Document] Response received:`, response);
 
         if (response && response.elements) {
-          this.elements = response.elements;
+          this.lastMetrics = response.metrics || null;
+          this.lastDiff = response.diff || null;
+          this.elements = await this.withSubframeElements(response.elements);
           this.isMarked = true;
           console.log(`[Document] Marked ${this.elements.length} elements`);
           
@@ -106,11 +138,14 @@ export class Document {
         
         try {
           const retryResponse = await chrome.tabs.sendMessage(this.tab.getTabId(), {
-            type: 'MARK_ELEMENTS'
-          });
+            type: 'MARK_ELEMENTS',
+            data: this.markingOptions(this.baseElementId())
+          }, { frameId: 0 });
           
           if (retryResponse && retryResponse.elements) {
-            this.elements = retryResponse.elements;
+            this.lastMetrics = retryResponse.metrics || null;
+            this.lastDiff = retryResponse.diff || null;
+            this.elements = await this.withSubframeElements(retryResponse.elements);
             this.isMarked = true;
             return this.elements;
           }
@@ -133,6 +168,132 @@ export class Document {
     }
   }
 
+  // 최상위 프레임 결과 뒤에 하위 프레임(iframe)의 요소를 이어 붙인다.
+  // 각 프레임은 앞 프레임이 사용한 다음 번호부터 id를 매겨 탭 전체에서 id가 겹치지 않는다
+  private async withSubframeElements(topElements: MarkedElement[]): Promise<MarkedElement[]> {
+    const tabId = this.tab.getTabId();
+    const elements: MarkedElement[] = topElements.map(el => ({ ...el, frameId: 0 }));
+    let nextId = this.nextElementId(elements, this.baseElementId());
+    
+    const frameIds = (await this.getFrameIds()).filter(frameId => frameId !== 0);
+    for (const frameId of frameIds) {
+      try {
+        const response = await chrome.tabs.sendMessage(tabId, {
+          type: 'MARK_ELEMENTS',
+          data: this.markingOptions(nextId)
+        }, { frameId });
+        
+        if (response && response.elements && response.elements.length > 0) {
+          const frameElements: MarkedElement[] = response.elements.map((el: MarkedElement) => ({ ...el, frameId }));
+          elements.push(...frameElements);
+          nextId = this.nextElementId(frameElements, nextId);
+          this.addFrameMetrics(response.metrics);
+          this.addFrameDiff(response.diff);
+          console.log(`[Document] Marked ${frameElements.length} elements in frame ${frameId}`);
+        }
+      } catch (frameError) {
+        // content script가 주입되지 않은 프레임 (chrome-extension://, 샌드박스 등)
+        console.warn(`[Document] Skipping frame ${frameId}:`, frameError);
+      }
+    }
+    
+    if (this.tracking) {
+      this.nextId = nextId;
+    }
+    this.fullScanRequested = false;
+    return elements;
+  }
+
+  private markingOptions(startId: number): { startId: number; track: boolean; fullScan: boolean } {
+    return { startId, track: this.tracking, fullScan: this.fullScanRequested };
+  }
+
+  // CSS :hover나 :focus-within으로 열리는 메뉴는 DOM을 바꾸지 않아 변화 추적에 잡히지 않는다
+  requestFullScan(): void {
+    this.fullScanRequested = true;
+  }
+
+  private baseElementId(): number {
+    return this.tracking ? this.nextId : 0;
+  }
+
+  startTracking(): void {
+    console.log(`[Document] Tracking page changes for tab: ${this.tab.getTabId()}`);
+    this.tracking = true;
+    this.nextId = 0;
+  }
+
+  async stopTracking(): Promise<void> {
+    console.log(`[Document] Stopped tracking page changes for tab: ${this.tab.getTabId()}`);
+    this.tracking = false;
+    this.lastDiff = null;
+    try {
+      await chrome.tabs.sendMessage(this.tab.getTabId(), { type: 'STOP_TRACKING' });
+    } catch (error) {
+      console.warn(`[Document] Failed to stop tracking in content script:`, error);
+    }
+  }
+
+  private addFrameDiff(diff?: PageChangeDiff | null): void {
+    if (!diff) return;
+    if (!this.lastDiff) {
+      this.lastDiff = diff;
+      return;
+    }
+    
+    this.lastDiff = {
+      added: this.lastDiff.added + diff.added,
+      removed: this.lastDiff.removed + diff.removed,
+      dialogOpened: this.lastDiff.dialogOpened || diff.dialogOpened,
+      dialogClosed: this.lastDiff.dialogClosed || diff.dialogClosed,
+      scrolled: this.lastDiff.scrolled || diff.scrolled
+    };
+  }
+
+  getLastDiff(): PageChangeDiff | null {
+    return this.lastDiff;
+  }
+
+  // 프레임은 순서대로 마킹되므로 소요 시간과 개수를 모두 더한다
+  private addFrameMetrics(metrics?: MarkingMetrics): void {
+    if (!metrics) return;
+    if (!this.lastMetrics) {
+      this.lastMetrics = metrics;
+      return;
+    }
+    
+    this.lastMetrics = {
+      durationMs: this.lastMetrics.durationMs + metrics.durationMs,
+      scannedElements: this.lastMetrics.scannedElements + metrics.scannedElements,
+      candidates: this.lastMetrics.candidates + metrics.candidates,
+      marked: this.lastMetrics.marked + metrics.marked,
+      visible: this.lastMetrics.visible + metrics.visible,
+      truncated: this.lastMetrics.truncated || metrics.truncated
+    };
+  }
+
+  getLastMetrics(): MarkingMetrics | null {
+    return this.lastMetrics;
+  }
+
+  private nextElementId(elements: MarkedElement[], fallback: number): number {
+    return elements.reduce((max, el) => Math.max(max, el.id + 1), fallback);
+  }
+
+  private async getFrameIds(): Promise<number[]> {
+    try {
+      const frames = await chrome.webNavigation.getAllFrames({ tabId: this.tab.getTabId() });
+      const frameIds = (frames || [])
+        .filter(frame => !frame.errorOccurred)
+        .map(frame => frame.frameId)
+        .sort((a, b) => a - b);
+      return frameIds.includes(0) ? frameIds : [0, ...frameIds];
+    } catch (error) {
+      console.warn(`[Document] Failed to list frames, using top frame only:`, error);
+      return [0];
+    }
+  }
+
   async clearMarkers(): Promise<void> {
     try {
       console.log(`[Document] Clearing markers for tab: ${this.tab.getTabId()}`);
@@ -176,6 +337,119 @@ export class Document {
     }
   }
 
+  async getPageText(maxLength?: number): Promise<string> {
+    const response = await chrome.tabs.sendMessage(this.tab.getTabId(), {
+      type: 'GET_PAGE_TEXT',
+      data: { maxLength }
+    }, { frameId: 0 });
+    
+    if (!response?.success) {
+      throw new Error(response?.error || 'Content script did not respond to GET_PAGE_TEXT');
+    }
+    
+    return response.text;
+  }
+
+  async extractContent(options: ContentExtractOptions = {}): Promise<ExtractedContent> {
+    const response = await chrome.tabs.sendMessage(this.tab.getTabId(), {
+      type: 'EXTRACT_CONTENT',
+      data: options
+    }, { frameId: 0 });
+    
+    if (!response?.success) {
+      throw new Error(response?.error || 'Content script did not respond to EXTRACT_CONTENT');
+    }
+    
+    return response.content;
+  }
+
+  // 최상위 프레임의 텍스트만 검색한다
+  async findInPage(options: FindOptions): Promise<FindResult> {
+    const response = await chrome.tabs.sendMessage(this.tab.getTabId(), {
+      type: 'FIND_IN_PAGE',
+      data: options
+    }, { frameId: 0 });
+    
+    if (!response?.success) {
+      throw new Error(response?.error || 'Content script did not respond to FIND_IN_PAGE');
+    }
+    
+    return response.result;
+  }
+
+  // 액션 대상 요소를 locator로 다시 찾아 확인하고, 현재 위치가 반영된 요소 목록을 반환한다
+  async verifyTargets(action: AIAction, elements: MarkedElement[]): Promise<MarkedElement[]> {
+    const targetIds = [action.elementId, action.targetElementId].filter((id): id is number => id !== undefined);
+    let verified = elements;
+    
+    for (const id of targetIds) {
+      const element = elements.find(el => el.id === id);
+      if (!element?.locator) continue;
+      
+      const check = await this.checkLocator(element);
+      if (check.status !== 'ok') {
+        throw new Error(`Target changed since it was marked: ${check.reason}. Observe the page again before acting.`);
+      }
+      if (check.rect) {
+        verified = verified.map(el => el.id === id ? { ...el, rect: check.rect!, visibility: check.visibility } : el);
+      }
+    }
+    
+    return verified;
+  }
+
+  private async checkLocator(element: MarkedElement): Promise<LocatorCheck> {
+    const response = await chrome.tabs.sendMessage(this.tab.getTabId(), {
+      type: 'CHECK_LOCATOR',
+      data: { id: element.id, locator: element.locator }
+    }, { frameId: element.frameId ?? 0 });
+    
+    if (!response?.success) {
+      throw new Error(response?.error || 'Content script did not respond to CHECK_LOCATOR');
+    }
+    
+    return response.check;
+  }
+
+  async scrollToElement(elementId: number): Promise<void> {
+    const frameId = this.getElementById(elementId)?.frameId ?? 0;
+    const response = await chrome.tabs.sendMessage(this.tab.getTabId(), {
+      type: 'SCROLL_TO_ELEMENT',
+      data: { id: elementId }
+    }, { frameId });
+    
+    if (!response?.success) {
+      throw new Error(response?.error || 'Content script did not respond to SCROLL_TO_ELEMENT');
+    }
+  }
+
+  async showCrosshair(x: number, y: number): Promise<void> {
+    try {
+      await chrome.tabs.sendMessage(this.tab.getTabId(), {
+        type: 'SHOW_CROSSHAIR',
+        data: { x, y }
+      }, { frameId: 0 });
+    } catch (error) {
+      console.warn(`[Document] Failed to show crosshair:`, error);
+    }
+  }
+
+  async selectOption(elementId: number, option: string): Promise<SelectOption> {
+    console.log(`[Document] Selecting option "${option}" on element ${elementId}`);
+    
+    const frameId = this.getElementById(elementId)?.frameId ?? 0;
+    const response = await chrome.tabs.sendMessage(this.tab.getTabId(), {
+      type: 'SELECT_OPTION',
+      action: { type: 'select_option', elementId, option }
+    }, { frameId });
+    
+    if (!response?.success) {
+      throw new Error(response?.error || 'Content script did not respond to SELECT_OPTION');
+    }
+    
+    return response.selected;
+  }
+
   getElementById(id: number): MarkedElement | null {
     return this.elements.find(el => el.id === id) || null;
   }
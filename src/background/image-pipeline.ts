@@ -0,0 +1,62 @@
+import type { ScreenshotFormat } from '../shared/types';
+
+export interface EncodedImage {
+  data: string; // base64
+  width: number;
+  height: number;
+  ratio: number; // 결과 크기 / 원본 크기
+}
+
+export function getMimeType(format: ScreenshotFormat): string {
+  return `image/${format}`;
+}
+
+// 긴 변이 maxLongEdge를 넘으면 OffscreenCanvas로 축소해 다시 인코딩한다 (service worker에는 DOM canvas가 없다)
+export async function downscaleImage(
+  data: string,
+  format: ScreenshotFormat,
+  maxLongEdge: number,
+  quality: number
+): Promise<EncodedImage> {
+  const mimeType = getMimeType(format);
+  const blob = await (await fetch(`data:${mimeType};base64,${data}`)).blob();
+  const bitmap = await createImageBitmap(blob);
+
+  try {
+    const longEdge = Math.max(bitmap.width, bitmap.height);
+    if (maxLongEdge <= 0 || longEdge <= maxLongEdge) {
+      return { data, width: bitmap.width, height: bitmap.height, ratio: 1 };
+    }
+
+    const ratio = maxLongEdge / longEdge;
+    const width = Math.max(1, Math.round(bitmap.width * ratio));
+    const height = Math.max(1, Math.round(bitmap.height * ratio));
+
+    const canvas = new OffscreenCanvas(width, height);
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('OffscreenCanvas 2d context unavailable');
+    }
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(bitmap, 0, 0, width, height);
+
+    const resized = await canvas.convertToBlob({
+      type: mimeType,
+      quality: format === 'png' ? undefined : quality / 100
+    });
+
+    return { data: await blobToBase64(resized), width, height, ratio: width / bitmap.width };
+  } finally {
+    bitmap.close();
+  }
+}
+
+async function blobToBase64(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  // String.fromCharCode 인자 수 제한을 피하기 위해 나눠서 변환
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
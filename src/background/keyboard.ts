@@ -0,0 +1,216 @@
+interface KeyDefinition {
+  key: string;
+  code: string;
+  keyCode: number;
+  text?: string;
+  location?: number;
+}
+
+export interface KeyEventParams {
+  type: 'keyDown' | 'rawKeyDown' | 'keyUp';
+  key: string;
+  code: string;
+  windowsVirtualKeyCode: number;
+  nativeVirtualKeyCode: number;
+  modifiers: number;
+  location?: number;
+  text?: string;
+  unmodifiedText?: string;
+  commands?: string[];
+}
+
+// CDP Input.dispatchKeyEvent modifiers 비트마스크
+const MODIFIER_BITS: Record<string, number> = {
+  Alt: 1,
+  Control: 2,
+  Meta: 4,
+  Shift: 8,
+};
+
+const KEY_DEFINITIONS: Record<string, KeyDefinition> = {
+  Enter: { key: 'Enter', code: 'Enter', keyCode: 13, text: '\r' },
+  Tab: { key: 'Tab', code: 'Tab', keyCode: 9 },
+  Escape: { key: 'Escape', code: 'Escape', keyCode: 27 },
+  Backspace: { key: 'Backspace', code: 'Backspace', keyCode: 8 },
+  Delete: { key: 'Delete', code: 'Delete', keyCode: 46 },
+  Insert: { key: 'Insert', code: 'Insert', keyCode: 45 },
+  Space: { key: ' ', code: 'Space', keyCode: 32, text: ' ' },
+  ArrowUp: { key: 'ArrowUp', code: 'ArrowUp', keyCode: 38 },
+  ArrowDown: { key: 'ArrowDown', code: 'ArrowDown', keyCode: 40 },
+  ArrowLeft: { key: 'ArrowLeft', code: 'ArrowLeft', keyCode: 37 },
+  ArrowRight: { key: 'ArrowRight', code: 'ArrowRight', keyCode: 39 },
+  Home: { key: 'Home', code: 'Home', keyCode: 36 },
+  End: { key: 'End', code: 'End', keyCode: 35 },
+  PageUp: { key: 'PageUp', code: 'PageUp', keyCode: 33 },
+  PageDown: { key: 'PageDown', code: 'PageDown', keyCode: 34 },
+  Shift: { key: 'Shift', code: 'ShiftLeft', keyCode: 16, location: 1 },
+  Control: { key: 'Control', code: 'ControlLeft', keyCode: 17, location: 1 },
+  Alt: { key: 'Alt', code: 'AltLeft', keyCode: 18, location: 1 },
+  Meta: { key: 'Meta', code: 'MetaLeft', keyCode: 91, location: 1 },
+};
+
+const KEY_ALIASES: Record<string, string> = {
+  esc: 'Escape',
+  return: 'Enter',
+  del: 'Delete',
+  up: 'ArrowUp',
+  down: 'ArrowDown',
+  left: 'ArrowLeft',
+  right: 'ArrowRight',
+  ctrl: 'Control',
+  cmd: 'Meta',
+  command: 'Meta',
+  win: 'Meta',
+  option: 'Alt',
+  opt: 'Alt',
+};
+
+// macOS에서는 단축키만 보내면 편집 명령이 실행되지 않으므로 commands를 함께 전달해야 한다
+const MAC_EDITING_COMMANDS: Record<string, string> = {
+  a: 'selectAll',
+  c: 'copy',
+  v: 'paste',
+  x: 'cut',
+  z: 'undo',
+};
+
+let cachedIsMac: boolean | null = null;
+
+export async function isMacPlatform(): Promise<boolean> {
+  if (cachedIsMac === null) {
+    try {
+      const info = await chrome.runtime.getPlatformInfo();
+      cachedIsMac = info.os === 'mac';
+    } catch (error) {
+      console.warn('[Keyboard] Failed to detect platform, assuming non-mac:', error);
+      cachedIsMac = false;
+    }
+  }
+  return cachedIsMac;
+}
+
+function resolveKey(name: string, isMac: boolean): KeyDefinition {
+  // 'Mod'는 플랫폼 기본 단축키 modifier (macOS: Meta, 그 외: Control)
+  if (/^(mod|controlormeta)$/i.test(name)) {
+    return KEY_DEFINITIONS[isMac ? 'Meta' : 'Control'];
+  }
+
+  const canonical = KEY_ALIASES[name.toLowerCase()] || name;
+  const definition = KEY_DEFINITIONS[canonical] ||
+    Object.values(KEY_DEFINITIONS).find(def => def.key.toLowerCase() === canonical.toLowerCase());
+  if (definition) return definition;
+
+  const functionKey = canonical.match(/^F([1-9]|1[0-2])$/i);
+  if (functionKey) {
+    const n = parseInt(functionKey[1]);
+    return { key: `F${n}`, code: `F${n}`, keyCode: 111 + n };
+  }
+
+  if (canonical.length === 1) {
+    const char = canonical;
+    if (/[a-z]/i.test(char)) {
+      return { key: char, code: `Key${char.toUpperCase()}`, keyCode: char.toUpperCase().charCodeAt(0), text: char };
+    }
+    if (/[0-9]/.test(char)) {
+      return { key: char, code: `Digit${char}`, keyCode: char.charCodeAt(0), text: char };
+    }
+    return { key: char, code: '', keyCode: 0, text: char };
+  }
+
+  throw new Error(`Unknown key: ${name}`);
+}
+
+export function parseKeyChord(chord: string, isMac: boolean): { modifiers: KeyDefinition[]; key: KeyDefinition } {
+  const trimmed = chord.trim();
+  if (!trimmed) {
+    throw new Error('Key chord is empty');
+  }
+
+  // 'Control++'처럼 마지막 키가 '+'인 경우를 처리
+  const parts = trimmed.endsWith('++')
+    ? [...trimmed.slice(0, -2).split('+'), '+']
+    : trimmed === '+' ? ['+'] : trimmed.split('+');
+
+  const keys = parts.map(part => part.trim()).filter(Boolean).map(part => resolveKey(part, isMac));
+  const key = keys[keys.length - 1];
+  const modifiers = keys.slice(0, -1);
+
+  modifiers.forEach(modifier => {
+    if (!(modifier.key in MODIFIER_BITS)) {
+      throw new Error(`"${modifier.key}" is not a modifier key in chord "${chord}"`);
+    }
+  });
+
+  return { modifiers, key };
+}
+
+export function buildKeyEvents(chord: string, isMac: boolean): KeyEventParams[] {
+  const { modifiers, key } = parseKeyChord(chord, isMac);
+  const events: KeyEventParams[] = [];
+  let modifierMask = 0;
+
+  modifiers.forEach(modifier => {
+    modifierMask |= MODIFIER_BITS[modifier.key];
+    events.push({
+      type: 'rawKeyDown',
+      key: modifier.key,
+      code: modifier.code,
+      windowsVirtualKeyCode: modifier.keyCode,
+      nativeVirtualKeyCode: modifier.keyCode,
+      modifiers: modifierMask,
+      location: modifier.location,
+    });
+  });
+
+  const isShortcut = (modifierMask & (MODIFIER_BITS.Control | MODIFIER_BITS.Meta | MODIFIER_BITS.Alt)) !== 0;
+  let text = key.text;
+  if (text && (modifierMask & MODIFIER_BITS.Shift) && text.length === 1 && /[a-z]/.test(text)) {
+    text = text.toUpperCase();
+  }
+  const producesText = !!text && !isShortcut;
+
+  const keyDown: KeyEventParams = {
+    type: producesText ? 'keyDown' : 'rawKeyDown',
+    key: producesText && text !== '\r' ? text! : key.key,
+    code: key.code,
+    windowsVirtualKeyCode: key.keyCode,
+    nativeVirtualKeyCode: key.keyCode,
+    modifiers: modifierMask,
+    location: key.location,
+  };
+  if (producesText) {
+    keyDown.text = text;
+    keyDown.unmodifiedText = key.text;
+  }
+
+  const editingCommand = MAC_EDITING_COMMANDS[key.key.toLowerCase()];
+  if (isMac && editingCommand && modifierMask === MODIFIER_BITS.Meta) {
+    keyDown.commands = [editingCommand];
+  }
+  events.push(keyDown);
+
+  events.push({
+    type: 'keyUp',
+    key: keyDown.key,
+    code: key.code,
+    windowsVirtualKeyCode: key.keyCode,
+    nativeVirtualKeyCode: key.keyCode,
+    modifiers: modifierMask,
+    location: key.location,
+  });
+
+  modifiers.slice().reverse().forEach(modifier => {
+    modifierMask &= ~MODIFIER_BITS[modifier.key];
+    events.push({
+      type: 'keyUp',
+      key: modifier.key,
+      code: modifier.code,
+      windowsVirtualKeyCode: modifier.keyCode,
+      nativeVirtualKeyCode: modifier.keyCode,
+      modifiers: modifierMask,
+      location: modifier.location,
+    });
+  });
+
+  return events;
+}
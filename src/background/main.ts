@@ -55,7 +55,17 @@ class BackgroundService {
         if (!document) throw new Error('No document found');
         const elements = await document.markElements();
         console.log(`[BACKGROUND] Returning ${elements.length} elements to sidepanel`);
-        return { elements };
+        return { elements, metrics: document.getLastMetrics(), diff: document.getLastDiff() };
+
+      case 'START_TRACKING':
+        const trackingDoc = currentTab.getDocument();
+        if (!trackingDoc) throw new Error('No document found');
+        return trackingDoc.startTracking();
+
+      case 'STOP_TRACKING':
+        const stopDoc = currentTab.getDocument();
+        if (!stopDoc) throw new Error('No document found');
+        return await stopDoc.stopTracking();
 
       case 'CLEAR_MARKERS':
         const doc = currentTab.getDocument();
@@ -66,6 +76,32 @@ class BackgroundService {
         if (!message.action) throw new Error('No action provided');
         return await currentTab.executeAction(message.action, message.elements);
 
+      case 'WAIT_FOR_PAGE':
+        if (!message.wait) throw new Error('No wait options provided');
+        return await currentTab.waitForPageLoad(message.wait);
+
+      case 'GET_AX_TREE':
+        return { tree: await currentTab.getAccessibilityTree() };
+
+      case 'GET_PAGE_TEXT':
+        const textDoc = currentTab.getDocument();
+        if (!textDoc) throw new Error('No document found');
+        return { text: await textDoc.getPageText(message.data?.maxLength) };
+
+      case 'EXTRACT_CONTENT':
+        const contentDoc = currentTab.getDocument();
+        if (!contentDoc) throw new Error('No document found');
+        return { content: await contentDoc.extractContent(message.data) };
+
+      case 'FIND_IN_PAGE':
+        const findDoc = currentTab.getDocument();
+        if (!findDoc) throw new Error('No document found');
+        if (!message.data?.query) throw new Error('No query provided');
+        return { result: await findDoc.findInPage(message.data) };
+
+      case 'GET_DIALOG_EVENTS':
+        return currentTab.getDialogEvents();
+
       case 'GET_ELEMENTS':
         const docEl = currentTab.getDocument();
         if (!docEl) throw new Error('No document found');
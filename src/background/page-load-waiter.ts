@@ -0,0 +1,218 @@
+import type { CDPEventBus } from './cdp-event-bus';
+import type { PageLoadWaitOptions, PageLoadWaitResult } from '../shared/types';
+
+type StateListener = () => void;
+
+// 이보다 오래 열려 있는 요청은 롱 폴링이나 스트리밍으로 보고 maxInflight 허용 대상에 넣는다 (ms)
+const LONG_LIVED_REQUEST_TIME = 3000;
+
+export class PageLoadWaiter {
+  private eventBus: CDPEventBus;
+  private mainFrameId: string | null = null;
+  private domContentLoaded: boolean = true;
+  private loaded: boolean = true;
+  private inflightRequests: Map<string, number> = new Map(); // requestId -> 시작 시각
+  private lastNetworkActivity: number = Date.now();
+  private lastNavigationStart: number = 0;
+  private stateListeners: Set<StateListener> = new Set();
+  private navigationGrace: number = 250;
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(eventBus: CDPEventBus) {
+    this.eventBus = eventBus;
+  }
+
+  start(readyState: DocumentReadyState, mainFrameId: string | null): void {
+    this.mainFrameId = mainFrameId;
+    this.domContentLoaded = readyState !== 'loading';
+    this.loaded = readyState === 'complete';
+    this.inflightRequests.clear();
+    this.lastNetworkActivity = Date.now();
+
+    if (!this.active) {
+      this.unsubscribers = [
+        this.eventBus.on('Page', this.handleEvent),
+        this.eventBus.on('Network', this.handleEvent)
+      ];
+    }
+    console.log(`[PageLoadWaiter] Tracking page load (readyState: ${readyState})`);
+  }
+
+  stop(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.inflightRequests.clear();
+    // 대기 중인 요청은 조건 미충족으로 종료
+    this.notify();
+  }
+
+  async waitFor(options: PageLoadWaitOptions): Promise<PageLoadWaitResult> {
+    const { until, idleTime = 500, maxInflight = 0, navigationOnly = false, timeout = 10000 } = options;
+    const startTime = Date.now();
+
+    // 클릭 등으로 시작되는 내비게이션 이벤트가 도착할 시간을 준다
+    await this.wait(this.navigationGrace);
+
+    // 비동기 검증 후 제출하는 폼이나 fetch 콜백의 리디렉션은 요청이 먼저 나가므로, 네트워크 활동도 없을 때만 건너뛴다
+    if (navigationOnly && this.loaded && this.lastNavigationStart < startTime && this.lastNetworkActivity < startTime) {
+      const elapsed = Date.now() - startTime;
+      console.log(`[PageLoadWaiter] No navigation or network activity within ${this.navigationGrace}ms, skipping wait for ${until}`);
+      return { satisfied: true, elapsed };
+    }
+
+    const satisfied = await new Promise<boolean>(resolve => {
+      let idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+      const finish = (result: boolean) => {
+        clearTimeout(timeoutTimer);
+        if (idleTimer) clearTimeout(idleTimer);
+        this.stateListeners.delete(check);
+        resolve(result);
+      };
+
+      const check = () => {
+        if (!this.active) {
+          finish(false);
+          return;
+        }
+
+        switch (until) {
+          case 'DOMContentLoaded':
+            if (this.domContentLoaded) finish(true);
+            break;
+
+          case 'load':
+            if (this.loaded) finish(true);
+            break;
+
+          case 'networkidle': {
+            if (idleTimer) {
+              clearTimeout(idleTimer);
+              idleTimer = null;
+            }
+            if (!this.loaded) break;
+            const { blocking, nextLongLived } = this.countBlockingRequests(maxInflight);
+            if (blocking === 0) {
+              const remaining = idleTime - (Date.now() - this.lastNetworkActivity);
+              if (remaining <= 0) {
+                finish(true);
+              } else {
+                idleTimer = setTimeout(check, remaining);
+              }
+            } else if (nextLongLived !== null) {
+              // 새 요청이 오래 걸리는 요청으로 바뀌는 시점에 다시 확인한다
+              idleTimer = setTimeout(check, nextLongLived);
+            }
+            break;
+          }
+        }
+      };
+
+      const timeoutTimer = setTimeout(() => {
+        console.warn(`[PageLoadWaiter] Timed out after ${timeout}ms waiting for ${until} (in-flight requests: ${this.inflightRequests.size})`);
+        finish(false);
+      }, Math.max(timeout - this.navigationGrace, 0));
+
+      this.stateListeners.add(check);
+      check();
+    });
+
+    const elapsed = Date.now() - startTime;
+    console.log(`[PageLoadWaiter] Wait for ${until} finished in ${elapsed}ms (satisfied: ${satisfied})`);
+    return { satisfied, elapsed };
+  }
+
+  // 시작한 지 얼마 안 된 요청은 모두 기다리고, 롱 폴링이나 스트리밍처럼 오래 열려 있는 요청은
+  // maxInflight개까지 유휴로 본다. nextLongLived: 가장 최근 요청이 오래 걸리는 요청이 되기까지 남은 시간
+  private countBlockingRequests(maxInflight: number): { blocking: number; nextLongLived: number | null } {
+    const now = Date.now();
+    let recent = 0;
+    let longLived = 0;
+    let nextLongLived: number | null = null;
+    this.inflightRequests.forEach(startedAt => {
+      const age = now - startedAt;
+      if (age >= LONG_LIVED_REQUEST_TIME) {
+        longLived++;
+      } else {
+        recent++;
+        const remaining = LONG_LIVED_REQUEST_TIME - age;
+        nextLongLived = nextLongLived === null ? remaining : Math.min(nextLongLived, remaining);
+      }
+    });
+    return { blocking: recent + Math.max(0, longLived - maxInflight), nextLongLived };
+  }
+
+  isLoading(): boolean {
+    return !this.loaded || this.inflightRequests.size > 0;
+  }
+
+  private get active(): boolean {
+    return this.unsubscribers.length > 0;
+  }
+
+  private handleEvent = (params: any, method: string) => {
+    switch (method) {
+      case 'Page.frameStartedLoading':
+        if (this.isMainFrame(params?.frameId)) {
+          this.domContentLoaded = false;
+          this.loaded = false;
+          this.inflightRequests.clear();
+          this.lastNetworkActivity = Date.now();
+          this.lastNavigationStart = Date.now();
+        }
+        break;
+
+      case 'Page.frameNavigated':
+        if (!params?.frame?.parentId) {
+          this.mainFrameId = params?.frame?.id || this.mainFrameId;
+        }
+        break;
+
+      case 'Page.domContentEventFired':
+        this.domContentLoaded = true;
+        break;
+
+      case 'Page.loadEventFired':
+        this.domContentLoaded = true;
+        this.loaded = true;
+        break;
+
+      case 'Page.frameStoppedLoading':
+        if (this.isMainFrame(params?.frameId)) {
+          this.domContentLoaded = true;
+          this.loaded = true;
+        }
+        break;
+
+      case 'Network.requestWillBeSent':
+        if (params?.type === 'WebSocket' || params?.type === 'EventSource') return;
+        this.inflightRequests.set(params.requestId, Date.now());
+        this.lastNetworkActivity = Date.now();
+        break;
+
+      case 'Network.loadingFinished':
+      case 'Network.loadingFailed':
+        if (this.inflightRequests.delete(params?.requestId)) {
+          this.lastNetworkActivity = Date.now();
+        }
+        break;
+
+      default:
+        return;
+    }
+
+    this.notify();
+  };
+
+  private isMainFrame(frameId?: string): boolean {
+    return !this.mainFrameId || frameId === this.mainFrameId;
+  }
+
+  private notify(): void {
+    Array.from(this.stateListeners).forEach(listener => listener());
+  }
+
+  private wait(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
@@ -1,6 +1,11 @@
 import { CDPSession } from './cdp-session';
 import { Document } from './document';
-import type { AIAction, MarkedElement, ScreenshotData } from '../shared/types';
+import type { AIAction, AXTreeNode, DialogEvent, JavaScriptDialog, MarkedElement, PageLoadWaitOptions, PageLoadWaitResult, ScreenshotData } from '../shared/types';
+
+// 요소 좌표로 입력 이벤트를 보내는 액션. 대상이 화면 밖이면 먼저 스크롤해야 빗나가지 않는다
+const COORDINATE_ACTIONS: AIAction['type'][] = ['click', 'double_click', 'right_click', 'hover', 'drag', 'type', 'scroll'];
+// 포커스나 hover 상태를 바꾸는 액션. CSS로만 열리는 메뉴를 찾도록 다음 마킹에서 페이지 전체를 검사한다
+const FULL_SCAN_ACTIONS: AIAction['type'][] = ['hover', 'press', 'type'];
 
 export class Tab {
   private tabId: number;
@@ -60,12 +65,103 @@ export class Tab {
   }
 
   async executeAction(action: AIAction, elements?: MarkedElement[]): Promise<void> {
+    if (this.document && elements) {
+      elements = await this.document.verifyTargets(action, elements);
+    }
+    
+    // 네이티브 <select> 팝업은 스크린샷에 보이지 않으므로 content script에서 값을 직접 설정
+    if (action.type === 'select_option') {
+      if (!this.document) throw new Error('No document found');
+      if (action.elementId === undefined || !action.option) {
+        throw new Error('Select option action requires elementId and option');
+      }
+      await this.document.selectOption(action.elementId, action.option);
+      return;
+    }
+
     await this.ensureCDPConnection();
     if (!this.cdpSession) {
       throw new Error('CDP session not available');
     }
     
-    return await this.cdpSession.executeAction(action, elements);
+    if (action.type === 'scroll_to') {
+      if (action.elementId === undefined) {
+        throw new Error('Scroll to action requires elementId');
+      }
+      await this.scrollIntoView(action.elementId);
+      return;
+    }
+    
+    if (this.document && elements && COORDINATE_ACTIONS.includes(action.type)) {
+      const targetIds = [action.elementId, action.targetElementId].filter((id): id is number => id !== undefined);
+      const offscreen = targetIds.filter(id => elements!.find(el => el.id === id)?.visibility?.startsWith('offscreen'));
+      if (offscreen.length > 0) {
+        for (const id of offscreen) {
+          await this.scrollIntoView(id);
+        }
+        // 스크롤 후 위치가 바뀌었으므로 좌표를 다시 읽는다
+        elements = await this.document.verifyTargets(action, elements);
+      }
+    }
+    
+    // 요소 없이 좌표로 클릭하는 경우 클릭 위치를 페이지에 표시
+    const isPointerAction = ['click', 'double_click', 'right_click', 'hover'].includes(action.type);
+    if (isPointerAction && action.elementId === undefined && action.x !== undefined && action.y !== undefined) {
+      await this.document?.showCrosshair(action.x, action.y);
+    }
+    
+    await this.cdpSession.executeAction(action, elements);
+    if (FULL_SCAN_ACTIONS.includes(action.type)) {
+      this.document?.requestFullScan();
+    }
+  }
+
+  private async scrollIntoView(elementId: number): Promise<void> {
+    try {
+      await this.cdpSession!.scrollIntoView(elementId);
+    } catch (error) {
+      if (!this.document) throw error;
+      console.warn(`[Tab] CDP scroll failed for element ${elementId}, using content script:`, error);
+      await this.document.scrollToElement(elementId);
+    }
+  }
+
+  async waitForPageLoad(options: PageLoadWaitOptions): Promise<PageLoadWaitResult> {
+    await this.ensureCDPConnection();
+    if (!this.cdpSession) {
+      throw new Error('CDP session not available');
+    }
+    
+    return await this.cdpSession.waitForPageLoad(options);
+  }
+
+  async getAccessibilityTree(): Promise<AXTreeNode[]> {
+    await this.ensureCDPConnection();
+    if (!this.cdpSession) {
+      throw new Error('CDP session not available');
+    }
+    
+    return await this.cdpSession.getAccessibilityTree();
+  }
+
+  async tagEventListenerElements(): Promise<number> {
+    await this.ensureCDPConnection();
+    if (!this.cdpSession) {
+      throw new Error('CDP session not available');
+    }
+    
+    return await this.cdpSession.tagEventListenerElements();
+  }
+
+  getDialogEvents(): { events: DialogEvent[]; pending: JavaScriptDialog | null } {
+    if (!this.cdpSession) {
+      return { events: [], pending: null };
+    }
+    
+    return {
+      events: this.cdpSession.drainDialogEvents(),
+      pending: this.cdpSession.getPendingDialog()
+    };
   }
 
   getDocument(): Document | null {
@@ -80,19 +176,13 @@ export class Tab {
       await this.document.updateUrl(newUrl);
     }
     
-    if (this.cdpSession) {
-      try {
-        await this.cdpSession.disconnect();
-      } catch (error) {
-        console.warn(`[Tab] Error disconnecting CDP session:`, error);
-      }
-      this.cdpSession = null;
-    }
+    // CDP 세션은 내비게이션 이후에도 유지되어 페이지 로드 상태를 계속 추적한다
   }
 
   onDebuggerDetached(): void {
     console.log(`[Tab] Debugger detached from tab: ${this.tabId}`);
     if (this.cdpSession) {
+      this.cdpSession.onDetached();
       this.cdpSession = null;
     }
   }
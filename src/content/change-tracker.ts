@@ -0,0 +1,101 @@
+export interface PendingChanges {
+  dirtyRoots: Element[]; // 추가되거나 속성이 바뀐 서브트리의 루트
+  layoutChanged: boolean; // 스크롤 또는 창 크기 변경으로 모든 위치가 바뀜
+}
+
+const OBSERVER_OPTIONS: MutationObserverInit = {
+  childList: true,
+  subtree: true,
+  attributes: true,
+};
+
+// 에이전트 세션 동안 페이지 변화를 모아 두었다가 다음 마킹에서 바뀐 부분만 다시 검사하게 한다
+export class PageChangeTracker {
+  private observer: MutationObserver | null = null;
+  private observedShadowRoots: WeakSet<ShadowRoot> = new WeakSet();
+  private dirtyRoots: Set<Element> = new Set();
+  private layoutChanged = false;
+  private readonly onLayoutChange = () => {
+    this.layoutChanged = true;
+  };
+
+  isActive(): boolean {
+    return this.observer !== null;
+  }
+
+  start(): void {
+    if (this.observer) return;
+
+    this.observer = new MutationObserver(records => this.collect(records));
+    this.observer.observe(document.documentElement, OBSERVER_OPTIONS);
+    this.observedShadowRoots = new WeakSet();
+    window.addEventListener('scroll', this.onLayoutChange, { capture: true, passive: true });
+    window.addEventListener('resize', this.onLayoutChange, { passive: true });
+    this.dirtyRoots.clear();
+    this.layoutChanged = false;
+    console.log('[PageChangeTracker] Started tracking page changes');
+  }
+
+  stop(): void {
+    if (!this.observer) return;
+
+    this.observer.disconnect();
+    this.observer = null;
+    window.removeEventListener('scroll', this.onLayoutChange, { capture: true });
+    window.removeEventListener('resize', this.onLayoutChange);
+    this.dirtyRoots.clear();
+    this.layoutChanged = false;
+    console.log('[PageChangeTracker] Stopped tracking page changes');
+  }
+
+  // shadow root 안의 변화는 document의 observer에 전달되지 않으므로 마킹 중 찾은 open shadow root를 따로 관찰한다
+  observeShadowRoots(elements: Element[]): void {
+    if (!this.observer) return;
+
+    elements.forEach(element => {
+      const root = element.shadowRoot;
+      if (!root || this.observedShadowRoots.has(root)) return;
+      this.observer!.observe(root, OBSERVER_OPTIONS);
+      this.observedShadowRoots.add(root);
+    });
+  }
+
+  takeChanges(): PendingChanges {
+    if (this.observer) {
+      this.collect(this.observer.takeRecords());
+    }
+
+    const changes = {
+      dirtyRoots: Array.from(this.dirtyRoots).filter(root => root.isConnected),
+      layoutChanged: this.layoutChanged,
+    };
+    this.dirtyRoots.clear();
+    this.layoutChanged = false;
+    return changes;
+  }
+
+  // 마커 추가/제거처럼 우리가 만든 변경은 무시한다
+  private collect(records: MutationRecord[]): void {
+    records.forEach(record => {
+      if (record.type === 'attributes') {
+        if (record.attributeName?.startsWith('data-voyager') || isOwnNode(record.target)) return;
+        this.dirtyRoots.add(record.target as Element);
+        return;
+      }
+
+      // 제거된 요소는 다음 마킹에서 isConnected로 걸러진다
+      record.addedNodes.forEach(node => {
+        if (node instanceof Element && !isOwnNode(node)) {
+          this.dirtyRoots.add(node);
+        }
+      });
+    });
+  }
+}
+
+function isOwnNode(node: Node): boolean {
+  return node instanceof Element && (
+    node.classList.contains('voyager-marker') ||
+    node.classList.contains('voyager-crosshair')
+  );
+}
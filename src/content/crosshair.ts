@@ -0,0 +1,33 @@
+const CROSSHAIR_CLASS = 'voyager-crosshair';
+const CROSSHAIR_SIZE = 24;
+
+// 좌표 기반 클릭 위치를 잠시 표시해 어디를 눌렀는지 확인할 수 있게 한다 (x, y는 viewport CSS 좌표)
+export function showCrosshair(x: number, y: number, duration: number = 1500): void {
+  document.querySelectorAll(`.${CROSSHAIR_CLASS}`).forEach(existing => existing.remove());
+
+  const crosshair = document.createElement('div');
+  crosshair.className = CROSSHAIR_CLASS;
+  crosshair.style.cssText = `
+    position: fixed;
+    left: ${x - CROSSHAIR_SIZE / 2}px;
+    top: ${y - CROSSHAIR_SIZE / 2}px;
+    width: ${CROSSHAIR_SIZE}px;
+    height: ${CROSSHAIR_SIZE}px;
+    border: 2px solid #ff00ff;
+    border-radius: 50%;
+    box-sizing: border-box;
+    z-index: 2147483647;
+    pointer-events: none;
+    background:
+      linear-gradient(#ff00ff, #ff00ff) center / 2px 100% no-repeat,
+      linear-gradient(#ff00ff, #ff00ff) center / 100% 2px no-repeat;
+    transition: opacity 300ms;
+  `;
+
+  document.documentElement.appendChild(crosshair);
+
+  setTimeout(() => {
+    crosshair.style.opacity = '0';
+    setTimeout(() => crosshair.remove(), 300);
+  }, duration);
+}
@@ -0,0 +1,55 @@
+// 열린(open) shadow root 안까지 재귀적으로 탐색하는 DOM 헬퍼.
+// 웹 컴포넌트 기반 사이트는 대부분의 컨트롤을 shadow DOM 안에 두므로 light DOM만으로는 찾을 수 없다
+
+export type QueryRoot = Document | ShadowRoot;
+
+export function getShadowRoots(root: QueryRoot): ShadowRoot[] {
+  const shadowRoots: ShadowRoot[] = [];
+  root.querySelectorAll('*').forEach(element => {
+    if (element.shadowRoot) {
+      shadowRoots.push(element.shadowRoot);
+    }
+  });
+  return shadowRoots;
+}
+
+export function querySelectorAllDeep(selector: string, root: QueryRoot = document): Element[] {
+  const results = Array.from(root.querySelectorAll(selector));
+  getShadowRoots(root).forEach(shadowRoot => {
+    results.push(...querySelectorAllDeep(selector, shadowRoot));
+  });
+  return results;
+}
+
+// 한 번의 순회로 shadow root 안까지 모든 요소를 문서 순서대로 모은다
+export function collectElementsDeep(root: QueryRoot | Element = document): Element[] {
+  const results: Element[] = [];
+  const visit = (current: QueryRoot | Element) => {
+    current.querySelectorAll('*').forEach(element => {
+      results.push(element);
+      if (element.shadowRoot) {
+        visit(element.shadowRoot);
+      }
+    });
+  };
+  visit(root);
+  return results;
+}
+
+export function elementFromPointInRoot(element: Element, x: number, y: number): Element | null {
+  const root = element.getRootNode();
+  // ShadowRoot.elementFromPoint는 해당 shadow tree 기준으로 retarget된 요소를 반환한다
+  if (root instanceof ShadowRoot) {
+    return root.elementFromPoint(x, y);
+  }
+  return document.elementFromPoint(x, y);
+}
+
+// document.activeElement는 shadow host를 가리키므로 안쪽 shadow root의 activeElement까지 따라간다
+export function getDeepActiveElement(): Element | null {
+  let active = document.activeElement;
+  while (active?.shadowRoot?.activeElement) {
+    active = active.shadowRoot.activeElement;
+  }
+  return active;
+}
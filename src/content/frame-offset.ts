@@ -0,0 +1,116 @@
+import { querySelectorAllDeep } from './dom-utils';
+
+export interface FrameOffset {
+  // 최상위 viewport 기준 이 프레임 viewport의 원점
+  x: number;
+  y: number;
+  // 최상위 viewport 기준으로 이 프레임이 실제로 보이는 영역
+  clip: { left: number; top: number; right: number; bottom: number };
+}
+
+const REQUEST_TYPE = 'voyager-frame-offset-request';
+const RESPONSE_TYPE = 'voyager-frame-offset-response';
+
+function topViewportOffset(): FrameOffset {
+  return {
+    x: 0,
+    y: 0,
+    clip: {
+      left: 0,
+      top: 0,
+      right: window.innerWidth || document.documentElement.clientWidth,
+      bottom: window.innerHeight || document.documentElement.clientHeight,
+    },
+  };
+}
+
+// cross-origin 프레임은 부모 DOM에 접근할 수 없으므로 부모 프레임의 content script에 postMessage로 물어본다
+export function getFrameOffset(timeout: number = 1000): Promise<FrameOffset | null> {
+  if (window === window.top) {
+    return Promise.resolve(topViewportOffset());
+  }
+
+  return new Promise(resolve => {
+    const requestId = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+    const cleanup = () => {
+      clearTimeout(timer);
+      window.removeEventListener('message', onMessage);
+    };
+
+    // 요청을 보낸 부모 프레임의 응답만 받는다. 다른 창이 보낸 가짜 offset은 클릭 위치를 옮길 수 있다
+    const parent = window.parent;
+    const onMessage = (event: MessageEvent) => {
+      if (event.source !== parent) return;
+      if (event.data?.type !== RESPONSE_TYPE || event.data.requestId !== requestId) return;
+      cleanup();
+      resolve(isFrameOffset(event.data.offset) ? event.data.offset : null);
+    };
+
+    const timer = setTimeout(() => {
+      cleanup();
+      console.warn('[FrameOffset] Parent frame did not report an offset');
+      resolve(null);
+    }, timeout);
+
+    window.addEventListener('message', onMessage);
+    parent.postMessage({ type: REQUEST_TYPE, requestId }, '*');
+  });
+}
+
+function isFrameOffset(value: unknown): value is FrameOffset {
+  const isNumber = (n: unknown) => typeof n === 'number' && Number.isFinite(n);
+  const offset = value as Partial<FrameOffset> | null;
+  return !!offset && isNumber(offset.x) && isNumber(offset.y) && !!offset.clip &&
+    isNumber(offset.clip.left) && isNumber(offset.clip.top) && isNumber(offset.clip.right) && isNumber(offset.clip.bottom);
+}
+
+function findFrameElement(source: MessageEventSource): HTMLIFrameElement | HTMLFrameElement | null {
+  const frames = querySelectorAllDeep('iframe, frame');
+  for (const frame of frames) {
+    if ((frame as HTMLIFrameElement).contentWindow === source) {
+      return frame as HTMLIFrameElement | HTMLFrameElement;
+    }
+  }
+  return null;
+}
+
+export function installFrameOffsetResponder(): void {
+  window.addEventListener('message', async (event: MessageEvent) => {
+    if (event.data?.type !== REQUEST_TYPE || typeof event.data.requestId !== 'string') return;
+    // 이 문서에 직접 포함된 프레임의 요청만 받는다
+    const source = event.source as Window | null;
+    if (!source || source === window || source.parent !== window) return;
+
+    const frameElement = findFrameElement(source);
+    if (!frameElement) return;
+
+    const ownOffset = await getFrameOffset();
+    let offset: FrameOffset | null = null;
+
+    if (ownOffset) {
+      const rect = frameElement.getBoundingClientRect();
+      const style = getComputedStyle(frameElement);
+      // iframe 문서는 border와 padding 안쪽(content box)에서 시작한다
+      const paddingLeft = parseFloat(style.paddingLeft || '0');
+      const paddingTop = parseFloat(style.paddingTop || '0');
+      const contentWidth = frameElement.clientWidth - paddingLeft - parseFloat(style.paddingRight || '0');
+      const contentHeight = frameElement.clientHeight - paddingTop - parseFloat(style.paddingBottom || '0');
+      const x = ownOffset.x + rect.left + frameElement.clientLeft + paddingLeft;
+      const y = ownOffset.y + rect.top + frameElement.clientTop + paddingTop;
+
+      offset = {
+        x,
+        y,
+        clip: {
+          left: Math.max(ownOffset.clip.left, x),
+          top: Math.max(ownOffset.clip.top, y),
+          right: Math.min(ownOffset.clip.right, x + contentWidth),
+          bottom: Math.min(ownOffset.clip.bottom, y + contentHeight),
+        },
+      };
+    }
+
+    source.postMessage({ type: RESPONSE_TYPE, requestId: event.data.requestId, offset }, '*');
+  });
+}
@@ -0,0 +1,38 @@
+// 마킹 중에는 DOM을 쓰지 않고 읽기만 하므로 레이아웃은 한 번만 계산된다.
+// 같은 요소의 rect/style을 여러 필터가 다시 읽지 않도록 캐시한다
+export class LayoutCache {
+  private rects: Map<Element, DOMRect> = new Map();
+  private styles: Map<Element, CSSStyleDeclaration> = new Map();
+  readonly viewportWidth: number;
+  readonly viewportHeight: number;
+
+  constructor() {
+    this.viewportWidth = window.innerWidth || document.documentElement.clientWidth;
+    this.viewportHeight = window.innerHeight || document.documentElement.clientHeight;
+  }
+
+  rect(element: Element): DOMRect {
+    let rect = this.rects.get(element);
+    if (!rect) {
+      rect = element.getBoundingClientRect();
+      this.rects.set(element, rect);
+    }
+    return rect;
+  }
+
+  style(element: Element): CSSStyleDeclaration {
+    let style = this.styles.get(element);
+    if (!style) {
+      style = getComputedStyle(element);
+      this.styles.set(element, style);
+    }
+    return style;
+  }
+
+  intersectsViewport(element: Element): boolean {
+    const rect = this.rect(element);
+    return rect.width > 0 && rect.height > 0 &&
+      rect.bottom > 0 && rect.right > 0 &&
+      rect.top < this.viewportHeight && rect.left < this.viewportWidth;
+  }
+}
@@ -0,0 +1,156 @@
+import type { QueryRoot } from './dom-utils';
+import type { ElementFingerprint } from '../shared/types';
+
+// 요소를 다시 찾기 위한 CSS 선택자와 XPath를 만든다.
+// CSS 선택자는 shadow root마다 따로 만들어 SHADOW_SEPARATOR로 잇고, XPath는 요소가 속한 root 기준이다
+
+export const SHADOW_SEPARATOR = ' >>> ';
+
+const STABLE_ATTRIBUTES = ['data-testid', 'data-test', 'data-qa', 'name', 'aria-label'];
+
+const IMPLICIT_ROLES: Record<string, string> = {
+  a: 'link',
+  button: 'button',
+  select: 'combobox',
+  textarea: 'textbox',
+  summary: 'button',
+};
+
+const INPUT_ROLES: Record<string, string> = {
+  checkbox: 'checkbox',
+  radio: 'radio',
+  button: 'button',
+  submit: 'button',
+  reset: 'button',
+  image: 'button',
+  range: 'slider',
+  search: 'searchbox',
+};
+
+export function buildCssPath(element: Element): string {
+  const chain: string[] = [];
+  let current: Element = element;
+
+  while (true) {
+    const root = current.getRootNode() as QueryRoot;
+    chain.unshift(buildSelectorInRoot(current, root));
+    if (!(root instanceof ShadowRoot)) break;
+    current = root.host;
+  }
+
+  return chain.join(SHADOW_SEPARATOR);
+}
+
+export function resolveCssPath(css: string): Element | null {
+  const selectors = css.split(SHADOW_SEPARATOR);
+  let root: QueryRoot = document;
+
+  for (let i = 0; i < selectors.length; i++) {
+    let element: Element | null;
+    try {
+      element = root.querySelector(selectors[i]);
+    } catch {
+      return null;
+    }
+    if (!element) return null;
+    if (i === selectors.length - 1) return element;
+    if (!element.shadowRoot) return null;
+    root = element.shadowRoot;
+  }
+
+  return null;
+}
+
+export function buildXPath(element: Element): string {
+  const segments: string[] = [];
+  let current: Element | null = element;
+
+  while (current) {
+    const name = current.namespaceURI === 'http://www.w3.org/1999/xhtml' ?
+      current.localName :
+      `*[local-name()="${current.localName}"]`;
+    const parent: Element | null = current.parentElement;
+    const siblings = parent ?
+      Array.from(parent.children).filter(sibling => sibling.localName === current!.localName) :
+      [current];
+    segments.unshift(siblings.length > 1 ? `${name}[${siblings.indexOf(current) + 1}]` : name);
+    current = parent;
+  }
+
+  return (element.getRootNode() instanceof ShadowRoot ? './' : '/') + segments.join('/');
+}
+
+export function resolveXPath(xpath: string, root: QueryRoot = document): Element | null {
+  try {
+    const result = document.evaluate(xpath, root, null, XPathResult.FIRST_ORDERED_NODE_TYPE, null);
+    return result.singleNodeValue instanceof Element ? result.singleNodeValue : null;
+  } catch {
+    return null;
+  }
+}
+
+export function getElementRole(element: Element): string | undefined {
+  const explicit = element.getAttribute('role');
+  if (explicit) return explicit.split(' ')[0];
+
+  const tag = element.localName;
+  if (tag === 'input') {
+    return INPUT_ROLES[(element as HTMLInputElement).type] || 'textbox';
+  }
+  if (tag === 'a' && !element.hasAttribute('href')) return undefined;
+  return IMPLICIT_ROLES[tag];
+}
+
+export function isSameFingerprint(a: ElementFingerprint, b: ElementFingerprint): boolean {
+  const normalize = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+  return a.tagName === b.tagName && a.role === b.role && normalize(a.text) === normalize(b.text);
+}
+
+function buildSelectorInRoot(element: Element, root: QueryRoot): string {
+  const tag = element.localName;
+
+  if (element.id && isUnique(root, `#${CSS.escape(element.id)}`)) {
+    return `#${CSS.escape(element.id)}`;
+  }
+
+  for (const attribute of STABLE_ATTRIBUTES) {
+    const value = element.getAttribute(attribute);
+    if (!value) continue;
+    const selector = `${CSS.escape(tag)}[${attribute}="${CSS.escape(value)}"]`;
+    if (isUnique(root, selector)) return selector;
+  }
+
+  // 고유해질 때까지 부모 방향으로 nth-of-type 경로를 늘린다
+  const parts: string[] = [];
+  let current: Element | null = element;
+  while (current) {
+    if (current !== element && current.id && isUnique(root, `#${CSS.escape(current.id)}`)) {
+      parts.unshift(`#${CSS.escape(current.id)}`);
+    } else {
+      let part = CSS.escape(current.localName);
+      const parent: Element | null = current.parentElement;
+      if (parent) {
+        const sameTag = Array.from(parent.children).filter(sibling => sibling.localName === current!.localName);
+        if (sameTag.length > 1) {
+          part += `:nth-of-type(${sameTag.indexOf(current) + 1})`;
+        }
+      }
+      parts.unshift(part);
+    }
+
+    const selector = parts.join(' > ');
+    if (isUnique(root, selector)) return selector;
+    if (parts[0].startsWith('#')) return selector;
+    current = current.parentElement;
+  }
+
+  return parts.join(' > ');
+}
+
+function isUnique(root: QueryRoot, selector: string): boolean {
+  try {
+    return root.querySelectorAll(selector).length === 1;
+  } catch {
+    return false;
+  }
+}
@@ -1,18 +1,31 @@
 import { elementMarker } from './marker';
+import { showCrosshair } from './crosshair';
+import { installFrameOffsetResponder } from './frame-offset';
+import { getReadablePageText } from './page-text';
+import { extractReadableContent } from './readable-content';
+import { findInPage } from './text-search';
+import { getViewportMetrics } from './viewport';
 import type { ExtensionMessage } from '../shared/types';
 
-console.log('[Content Script] Web Voyager content script loaded on:', window.location.href);
+console.log(`[Content Script] Web Voyager content script loaded on: ${window.location.href}${window === window.top ? '' : ' (subframe)'}`);
 
-chrome.runtime.onMessage.addListener((message: ExtensionMessage, sender, sendResponse) => {
+installFrameOffsetResponder();
+
+chrome.runtime.onMessage.addListener((message: ExtensionMessage, _, sendResponse) => {
   console.log('[Content Script] Received message:', message.type);
   
   (async () => {
     try {
       switch (message.type) {
         case 'MARK_ELEMENTS':
-          const elements = await elementMarker.markClickableElements();
+          const elements = await elementMarker.markClickableElements(message.data?.startId ?? 0, message.data?.timeBudget, message.data?.track, message.data?.fullScan);
           console.log(`[Content Script] Sending ${elements.length} elements to background`);
-          sendResponse({ success: true, elements });
+          sendResponse({
+            success: true,
+            elements,
+            metrics: elementMarker.getLastMetrics(),
+            diff: elementMarker.getLastDiff()
+          });
           break;
 
         case 'CLEAR_MARKERS':
@@ -21,6 +34,61 @@ chrome.runtime.onMessage.addListener((message: ExtensionMessage, sender, sendRes
           sendResponse({ success: true });
           break;
 
+        case 'STOP_TRACKING':
+          elementMarker.stopTracking();
+          sendResponse({ success: true });
+          break;
+
+        case 'SELECT_OPTION':
+          if (message.action?.elementId === undefined || message.action.option === undefined) {
+            throw new Error('SELECT_OPTION requires elementId and option');
+          }
+          const selected = elementMarker.selectOption(message.action.elementId, message.action.option);
+          sendResponse({ success: true, selected });
+          break;
+
+        case 'GET_PAGE_TEXT':
+          sendResponse({ success: true, text: getReadablePageText(message.data?.maxLength) });
+          break;
+
+        case 'EXTRACT_CONTENT':
+          sendResponse({ success: true, content: extractReadableContent(message.data) });
+          break;
+
+        case 'FIND_IN_PAGE':
+          if (!message.data?.query) {
+            throw new Error('FIND_IN_PAGE requires query');
+          }
+          sendResponse({ success: true, result: findInPage(message.data) });
+          break;
+
+        case 'CHECK_LOCATOR':
+          if (message.data?.id === undefined || !message.data?.locator) {
+            throw new Error('CHECK_LOCATOR requires id and locator');
+          }
+          sendResponse({ success: true, check: await elementMarker.checkLocator(message.data.id, message.data.locator) });
+          break;
+
+        case 'SCROLL_TO_ELEMENT':
+          if (message.data?.id === undefined) {
+            throw new Error('SCROLL_TO_ELEMENT requires id');
+          }
+          elementMarker.scrollToElement(message.data.id);
+          sendResponse({ success: true });
+          break;
+
+        case 'SHOW_CROSSHAIR':
+          if (message.data?.x === undefined || message.data?.y === undefined) {
+            throw new Error('SHOW_CROSSHAIR requires x and y');
+          }
+          showCrosshair(message.data.x, message.data.y);
+          sendResponse({ success: true });
+          break;
+
+        case 'GET_VIEWPORT_METRICS':
+          sendResponse({ success: true, metrics: getViewportMetrics() });
+          break;
+
         case 'GET_ELEMENTS':
           const currentElements = elementMarker.getMarkedElements();
           console.log(`[Content Script] Sending ${currentElements.length} current elements`);
@@ -1,11 +1,34 @@
-import type { MarkedElement } from '../shared/types';
+import { collectElementsDeep, elementFromPointInRoot, getDeepActiveElement } from './dom-utils';
+import { PageChangeTracker } from './change-tracker';
+import { LayoutCache } from './layout-cache';
+import { getFrameOffset, type FrameOffset } from './frame-offset';
+import { buildCssPath, buildXPath, getElementRole, isSameFingerprint, resolveCssPath, resolveXPath, SHADOW_SEPARATOR } from './locator';
+import type { ElementFingerprint, ElementLocator, ElementState, InclusionReason, LocatorCheck, MarkedElement, MarkingMetrics, PageChangeDiff, SelectOption, ViewportVisibility } from '../shared/types';
+
+// background의 CDP 이벤트 리스너 검사가 click/mousedown 리스너가 있는 요소에 붙이는 속성
+const LISTENER_ATTRIBUTE = 'data-voyager-listener';
+const DEFAULT_TIME_BUDGET = 1500;
+const DIALOG_SELECTOR = 'dialog[open], [role="dialog"], [role="alertdialog"], [aria-modal="true"]';
 
 export class ElementMarker {
   private markers: Map<number, HTMLElement> = new Map();
+  private elementRefs: Map<number, Element> = new Map();
   private markedElements: MarkedElement[] = [];
   private isMarking: boolean = false;
+  private lastMetrics: MarkingMetrics | null = null;
+  private lastDiff: PageChangeDiff | null = null;
+  private changeTracker = new PageChangeTracker();
+  private candidates: Map<Element, InclusionReason> = new Map();
+  private idsByElement: WeakMap<Element, number> = new WeakMap();
+  // 추적 중 바뀌지 않은 요소는 querySelectorAll로 유일성을 확인하는 locator와 label을 다시 만들지 않는다
+  private infoCache: WeakMap<Element, Pick<MarkedElement, 'locator' | 'label'>> = new WeakMap();
+  private dialogOpen = false;
 
-  async markClickableElements(): Promise<MarkedElement[]> {
+  // startId: 여러 프레임의 요소 id가 겹치지 않도록 background가 지정하는, 새 요소에 붙일 시작 번호
+  // timeBudget: 큰 페이지에서 화면 밖 후보 처리를 중단하는 시간 (ms)
+  // track: 에이전트 세션 동안 페이지 변화를 추적해 바뀐 부분만 다시 검사하고 기존 요소의 id를 유지한다
+  // fullScan: 추적 중에도 페이지 전체를 다시 검사한다 (hover, 키 입력처럼 DOM 변화 없이 메뉴가 열리는 액션 후)
+  async markClickableElements(startId: number = 0, timeBudget: number = DEFAULT_TIME_BUDGET, track: boolean = false, fullScan: boolean = false): Promise<MarkedElement[]> {
     if (this.isMarking) {
       console.log('[ElementMarker] Already marking elements');
       return this.markedElements;
@@ -13,70 +36,145 @@ export class ElementMarker {
 
     console.log('[ElementMarker] Starting element marking...');
     this.isMarking = true;
+    const startTime = performance.now();
+    const deadline = startTime + timeBudget;
 
     try {
-      this.clearMarkers();
+      if (!track) {
+        this.stopTracking();
+      } else if (!this.changeTracker.isActive()) {
+        this.resetState();
+        this.changeTracker.start();
+      }
+      const hasPrevious = this.changeTracker.isActive() && this.candidates.size > 0;
+      const changes = this.changeTracker.takeChanges();
+      const previousIds = new Set(this.markedElements.map(el => el.id));
 
-      const clickableElements = this.findClickableElements();
-      const scrollableElements = this.findScrollableElements();
-      
-      const allElements = [...clickableElements];
-      scrollableElements.forEach((scrollEl: Element) => {
-        if (!clickableElements.includes(scrollEl)) {
-          allElements.push(scrollEl);
-        }
+      // 하위 프레임은 최상위 viewport 기준 좌표로 보정해야 CDP 입력 좌표와 일치한다
+      const frameOffset = await getFrameOffset();
+      if (!frameOffset || !this.hasVisibleArea(frameOffset)) {
+        console.log('[ElementMarker] Frame is not visible in the top-level viewport, skipping');
+        this.removeStaleMarks(new Set());
+        this.markedElements = [];
+        this.lastMetrics = this.createMetrics(startTime, 0, 0, 0, false);
+        return this.markedElements;
+      }
+
+      // 1단계 (읽기): 후보를 고른다. 추적 중이면 이전 후보와 바뀐 서브트리만 검사하고, 스크롤은 위치만 다시 계산한다.
+      // DOM 변화도 스크롤도 없었다면 CSS 상태(:hover, :focus-within)로 바뀐 화면일 수 있으므로 전체를 검사한다
+      const layout = new LayoutCache();
+      const incremental = hasPrevious && !fullScan && (changes.dirtyRoots.length > 0 || changes.layoutChanged);
+      const dirtyElements = this.collectDirtyElements(changes.dirtyRoots);
+      this.invalidateInfoCache(changes.dirtyRoots, dirtyElements);
+      const scanElements = incremental ? this.collectChangedElements(dirtyElements, changes.layoutChanged, layout) : collectElementsDeep();
+      this.changeTracker.observeShadowRoots(scanElements);
+      const candidates = this.findClickableElements(scanElements, layout);
+      const scrollableElements = this.findScrollableElements(scanElements, layout);
+      scrollableElements.forEach(element => {
+        if (!candidates.has(element)) candidates.set(element, 'scrollable');
       });
+      this.candidates = candidates;
       
-      console.log(`[ElementMarker] Found ${clickableElements.length} clickable and ${scrollableElements.length} scrollable elements`);
+      const reasonCounts: Record<string, number> = {};
+      candidates.forEach(reason => reasonCounts[reason] = (reasonCounts[reason] || 0) + 1);
+      console.log(`[ElementMarker] Scanned ${scanElements.length} elements${incremental ? ' (incremental)' : ''}, found ${candidates.size} candidates`, reasonCounts);
 
-      let visibleCount = 0;
-      let hiddenCount = 0;
-      let scrollableCount = 0;
+      // 화면에 보이는 후보부터 처리하고, 화면 밖 후보는 시간 예산 안에서만 처리한다
+      const ordered = Array.from(candidates.keys());
+      const inViewport = ordered.filter(element => layout.intersectsViewport(element));
+      const offscreen = ordered.filter(element => !layout.intersectsViewport(element));
+      
+      const activeElement = getDeepActiveElement();
+      const visibleIds = new Set<number>();
+      let truncated = false;
+      let nextId = startId;
 
-      this.markedElements = allElements.map((element, index) => {
-        const id = index;
-        const rect = element.getBoundingClientRect();
-        const isScrollable = scrollableElements.includes(element);
+      // 2단계 (읽기): 요소 정보를 만든다. 이 단계에서도 DOM을 쓰지 않는다
+      const processed: Array<{ element: Element; info: MarkedElement }> = [];
+      const queue = [...inViewport, ...offscreen];
+      for (const element of queue) {
+        if (processed.length >= inViewport.length && performance.now() > deadline) {
+          truncated = true;
+          break;
+        }
         
-        element.setAttribute('data-voyager-checking', 'true');
-        const isVisible = this.isElementVisible(rect);
+        let id = this.idsByElement.get(element);
+        if (id === undefined) {
+          id = nextId++;
+          this.idsByElement.set(element, id);
+        }
+        const rect = layout.rect(element);
+        const isScrollable = scrollableElements.has(element);
+        const visibility = this.getVisibility(element, rect, frameOffset);
+        if (visibility === 'in-viewport') {
+          visibleIds.add(id);
+        }
         
-        if (isVisible) {
-          this.createMarker(id, rect, isScrollable);
-          visibleCount++;
-          if (isScrollable) scrollableCount++;
-        } else {
-          hiddenCount++;
-          const elementInfo = {
-            id: element.id,
-            class: element.className,
-            tag: element.tagName,
-            text: this.getElementText(element).slice(0, 30),
-            rect: `${Math.round(rect.left)},${Math.round(rect.top)} ${Math.round(rect.width)}x${Math.round(rect.height)}`
+        // 텍스트, 속성, 선택지, 입력 값과 상태는 DOM 변화 없이도 바뀌므로 매번 읽고, 비용이 큰 locator와 label만 캐시한다
+        let stable = this.infoCache.get(element);
+        if (!stable) {
+          stable = {
+            locator: this.buildLocator(element),
+            label: this.getLabelText(element)
           };
-          console.log('[ElementMarker] Hidden element filtered:', elementInfo);
+          this.infoCache.set(element, stable);
         }
-
-        return {
+        const info: MarkedElement = {
           id,
           tagName: element.tagName.toLowerCase(),
           text: this.getElementText(element),
-          rect: {
-            x: rect.x,
-            y: rect.y,
-            width: rect.width,
-            height: rect.height,
-            left: rect.left,
-            top: rect.top,
-            right: rect.right,
-            bottom: rect.bottom,
-          },
+          rect: this.toTopViewportRect(rect, frameOffset),
           attributes: this.getElementAttributes(element),
-          scrollable: isScrollable
+          scrollable: isScrollable,
+          options: element instanceof HTMLSelectElement ? this.getSelectOptions(element) : undefined,
+          ...stable,
+          reason: candidates.get(element),
+          state: this.getElementState(element, activeElement),
+          value: this.getElementValue(element),
+          visibility
         };
+        processed.push({ element, info });
+      }
+      // 시간 예산으로 이번에 처리하지 못한 후보는 사라진 요소로 세지 않는다
+      const skippedIds = new Set(queue.slice(processed.length)
+        .map(element => this.idsByElement.get(element))
+        .filter((id): id is number => id !== undefined));
+      const dialogOpen = this.hasOpenDialog(layout);
+
+      // 3단계 (쓰기): 바뀐 마커만 고치고 새 마커는 한꺼번에 추가해 레이아웃 재계산을 한 번으로 줄인다
+      const markerLayer = document.createDocumentFragment();
+      processed.forEach(({ element, info }) => {
+        if (this.elementRefs.get(info.id) !== element) {
+          this.elementRefs.set(info.id, element);
+          element.setAttribute('data-voyager-element-id', String(info.id));
+        }
+        
+        const marker = this.markers.get(info.id);
+        if (!visibleIds.has(info.id)) {
+          marker?.remove();
+          this.markers.delete(info.id);
+        } else if (marker) {
+          this.positionMarker(marker, layout.rect(element));
+          marker.style.display = '';
+        } else {
+          markerLayer.appendChild(this.createMarker(info.id, layout.rect(element), info.scrollable));
+        }
       });
+      this.removeStaleMarks(new Set(processed.map(({ info }) => info.id)));
+      document.body.appendChild(markerLayer);
+      
+      this.markedElements = processed.map(({ info }) => info);
+      this.lastMetrics = this.createMetrics(startTime, scanElements.length, candidates.size, visibleIds.size, truncated);
+      this.lastDiff = hasPrevious ? {
+        added: this.markedElements.filter(el => !previousIds.has(el.id)).length,
+        removed: Array.from(previousIds).filter(id => !this.elementRefs.has(id) && !skippedIds.has(id)).length,
+        dialogOpened: dialogOpen && !this.dialogOpen,
+        dialogClosed: !dialogOpen && this.dialogOpen,
+        scrolled: changes.layoutChanged
+      } : null;
+      this.dialogOpen = dialogOpen;
 
-      console.log(`[ElementMarker] Marked ${visibleCount} visible elements (${scrollableCount} scrollable), filtered ${hiddenCount} hidden elements`);
+      console.log(`[ElementMarker] Marked ${this.markedElements.length} elements (${visibleIds.size} visible) in ${this.lastMetrics.durationMs}ms${truncated ? ', time budget exceeded' : ''}`, this.lastDiff);
       return this.markedElements;
 
     } finally {
@@ -84,18 +182,244 @@ export class ElementMarker {
     }
   }
 
-  private findScrollableElements(): Element[] {
-    const elements: Element[] = [];
+  getLastDiff(): PageChangeDiff | null {
+    return this.lastDiff;
+  }
+
+  stopTracking(): void {
+    if (this.changeTracker.isActive()) {
+      this.changeTracker.stop();
+    }
+    this.resetState();
+  }
+
+  // 이전 후보 중 아직 문서에 있는 요소와, 바뀐 서브트리의 모든 요소.
+  // 스크롤 후에는 cursor-pointer와 스크롤 영역 검사가 viewport 안만 보므로 새로 화면에 들어온 요소도 검사한다
+  private collectChangedElements(dirtyElements: Set<Element>, layoutChanged: boolean, layout: LayoutCache): Element[] {
+    const elements = new Set<Element>(dirtyElements);
+    this.candidates.forEach((_, element) => {
+      if (element.isConnected) elements.add(element);
+    });
+    if (layoutChanged) {
+      collectElementsDeep().forEach(element => {
+        if (layout.intersectsViewport(element)) elements.add(element);
+      });
+    }
+    return Array.from(elements);
+  }
+
+  // 바뀐 서브트리 안의 요소는 경로가, 그 조상은 fingerprint 텍스트가 달라질 수 있으므로 캐시에서 지운다
+  private invalidateInfoCache(dirtyRoots: Element[], dirtyElements: Set<Element>): void {
+    dirtyElements.forEach(element => this.infoCache.delete(element));
+    dirtyRoots.forEach(root => {
+      for (let ancestor = this.getParentElement(root); ancestor; ancestor = this.getParentElement(ancestor)) {
+        this.infoCache.delete(ancestor);
+      }
+    });
+  }
+
+  private collectDirtyElements(dirtyRoots: Element[]): Set<Element> {
+    const elements = new Set<Element>();
+    dirtyRoots.forEach(root => {
+      elements.add(root);
+      collectElementsDeep(root).forEach(element => elements.add(element));
+      if (root.shadowRoot) {
+        collectElementsDeep(root.shadowRoot).forEach(element => elements.add(element));
+      }
+    });
+    return elements;
+  }
+
+  private hasOpenDialog(layout: LayoutCache): boolean {
+    return Array.from(document.querySelectorAll(DIALOG_SELECTOR)).some(dialog => {
+      const rect = layout.rect(dialog);
+      return rect.width > 0 && rect.height > 0 && layout.style(dialog).visibility !== 'hidden';
+    });
+  }
+
+  // 이번 마킹에 포함되지 않은 id의 마커와 표시 속성을 제거한다
+  private removeStaleMarks(currentIds: Set<number>): void {
+    this.markers.forEach((marker, id) => {
+      if (!currentIds.has(id)) {
+        marker.remove();
+        this.markers.delete(id);
+      }
+    });
+    this.elementRefs.forEach((element, id) => {
+      if (!currentIds.has(id)) {
+        element.removeAttribute('data-voyager-element-id');
+        this.elementRefs.delete(id);
+      }
+    });
+  }
+
+  getLastMetrics(): MarkingMetrics | null {
+    return this.lastMetrics;
+  }
+
+  private createMetrics(startTime: number, scanned: number, candidates: number, visible: number, truncated: boolean): MarkingMetrics {
+    return {
+      durationMs: Math.round(performance.now() - startTime),
+      scannedElements: scanned,
+      candidates,
+      marked: this.markedElements.length,
+      visible,
+      truncated
+    };
+  }
+
+  private toTopViewportRect(rect: DOMRect, frameOffset: FrameOffset): MarkedElement['rect'] {
+    return {
+      x: rect.x + frameOffset.x,
+      y: rect.y + frameOffset.y,
+      width: rect.width,
+      height: rect.height,
+      left: rect.left + frameOffset.x,
+      top: rect.top + frameOffset.y,
+      right: rect.right + frameOffset.x,
+      bottom: rect.bottom + frameOffset.y,
+    };
+  }
+
+  private buildLocator(element: Element): ElementLocator {
+    return {
+      css: buildCssPath(element),
+      xpath: buildXPath(element),
+      fingerprint: this.getFingerprint(element)
+    };
+  }
+
+  // 입력 값은 타이핑으로 바뀌므로 폼 컨트롤은 값 대신 라벨 성격의 속성으로 식별한다
+  private getFingerprint(element: Element): ElementFingerprint {
+    const isFormControl = element instanceof HTMLInputElement ||
+      element instanceof HTMLTextAreaElement ||
+      element instanceof HTMLSelectElement;
+    const text = isFormControl ?
+      element.getAttribute('aria-label') || element.getAttribute('placeholder') || element.getAttribute('name') || element.getAttribute('type') || '' :
+      this.getElementText(element);
+
+    return {
+      tagName: element.tagName.toLowerCase(),
+      role: getElementRole(element),
+      text: text.slice(0, 100)
+    };
+  }
+
+  // 액션 직전에 요소를 다시 확인해, 마킹 이후 다른 요소로 바뀌었는지 확인한다.
+  // 행이 추가되거나 순서가 바뀌면 nth-of-type 경로가 같은 모양의 다른 요소를 가리킬 수 있으므로
+  // 마킹한 요소가 아직 문서에 있으면 그 요소를 쓰고, 사라졌을 때만 locator로 다시 찾는다
+  async checkLocator(id: number, locator: ElementLocator): Promise<LocatorCheck> {
+    const previous = this.elementRefs.get(id);
+    let element: Element | null = previous?.isConnected ? previous : null;
+    if (!element) {
+      element = resolveCssPath(locator.css);
+      if (!element && !locator.css.includes(SHADOW_SEPARATOR)) {
+        element = resolveXPath(locator.xpath);
+      }
+    }
+    if (!element) {
+      return { status: 'missing', reason: `element ${id} is no longer on the page` };
+    }
+
+    const fingerprint = this.getFingerprint(element);
+    if (!isSameFingerprint(fingerprint, locator.fingerprint)) {
+      return {
+        status: 'changed',
+        reason: `element ${id} changed from <${locator.fingerprint.tagName}> "${locator.fingerprint.text}" to <${fingerprint.tagName}> "${fingerprint.text}"`
+      };
+    }
+
+    // 같은 요소가 다시 렌더링된 경우 CDP가 찾을 수 있도록 표시를 옮기고, 이전 요소의 id는 지운다
+    if (previous !== element) {
+      if (previous) {
+        previous.removeAttribute('data-voyager-element-id');
+        this.idsByElement.delete(previous);
+      }
+      const displaced = this.idsByElement.get(element);
+      if (displaced !== undefined && displaced !== id && this.elementRefs.get(displaced) === element) {
+        this.elementRefs.delete(displaced);
+      }
+      element.setAttribute('data-voyager-element-id', String(id));
+      this.elementRefs.set(id, element);
+      this.idsByElement.set(element, id);
+    }
+
+    const frameOffset = await getFrameOffset();
+    if (!frameOffset) {
+      return { status: 'missing', reason: `the frame of element ${id} is no longer reachable` };
+    }
+    const rect = element.getBoundingClientRect();
+    return {
+      status: 'ok',
+      rect: this.toTopViewportRect(rect, frameOffset),
+      visibility: this.getVisibility(element, rect, frameOffset)
+    };
+  }
+
+  // CDP로 노드를 찾지 못하는 프레임(out-of-process iframe 등)을 위한 대체 경로
+  scrollToElement(id: number): void {
+    const element = this.elementRefs.get(id);
+    if (!element || !element.isConnected) {
+      throw new Error(`Element with id ${id} not found`);
+    }
+    element.scrollIntoView({ block: 'center', inline: 'center', behavior: 'instant' });
+    console.log(`[ElementMarker] Scrolled element ${id} into view`);
+  }
+
+  private hasVisibleArea(offset: FrameOffset): boolean {
+    return offset.clip.right - offset.clip.left > 0 && offset.clip.bottom - offset.clip.top > 0;
+  }
+
+  // 클릭은 요소 중심을 누르므로 중심점이 최상위 viewport에서 보이는 프레임 영역 안에 있고,
+  // 그 지점에서 요소 자신(또는 자손)이 가장 위에 있어야 'in-viewport'로 본다
+  private getVisibility(element: Element, rect: DOMRect, offset: FrameOffset): ViewportVisibility {
+    const centerX = rect.left + rect.width / 2;
+    const centerY = rect.top + rect.height / 2;
     
-    const allElements = document.querySelectorAll('*');
+    if (centerY + offset.y < offset.clip.top) return 'offscreen-above';
+    if (centerY + offset.y > offset.clip.bottom) return 'offscreen-below';
+    if (centerX + offset.x < offset.clip.left) return 'offscreen-left';
+    if (centerX + offset.x > offset.clip.right) return 'offscreen-right';
+    
+    // shadow DOM 안의 요소는 document 기준으로 검사하면 host가 반환되므로 요소가 속한 root에서 검사한다
+    const elementAtPoint = elementFromPointInRoot(element, centerX, centerY);
+    if (elementAtPoint && element !== elementAtPoint && !element.contains(elementAtPoint)) {
+      return 'occluded';
+    }
+    
+    return 'in-viewport';
+  }
+
+  // 스크롤 컨테이너는 화면에 보이는 것만 의미가 있으므로 viewport와 겹치는 요소만 검사한다
+  private findScrollableElements(allElements: Element[], layout: LayoutCache): Set<Element> {
+    const elements = new Set<Element>();
+    const scrollSelectors = [
+      '[role="scrollbar"]',
+      '.scroll-container',
+      '.scrollable',
+      '.overflow-auto',
+      '.overflow-scroll',
+      '.overflow-x-auto',
+      '.overflow-y-auto',
+      '.overflow-x-scroll',
+      '.overflow-y-scroll',
+      '[data-scroll]',
+      '[data-scrollable]'
+    ].join(', ');
     
     allElements.forEach(element => {
       if (!(element instanceof HTMLElement)) return;
+      if (!layout.intersectsViewport(element)) return;
       
-      const style = getComputedStyle(element);
-      const rect = element.getBoundingClientRect();
+      const rect = layout.rect(element);
+      if (rect.width <= 50 || rect.height <= 50) return;
+      
+      if (element.matches(scrollSelectors)) {
+        elements.add(element);
+        return;
+      }
       
-      if (rect.width <= 0 || rect.height <= 0) return;
+      const style = layout.style(element);
       if (style.display === 'none' || style.visibility === 'hidden') return;
       
       const overflowY = style.overflowY;
@@ -107,44 +431,17 @@ export class ElementMarker {
       
       if (isScrollableY || isScrollableX) {
         const hasScrollableContent = element.scrollHeight > element.clientHeight || element.scrollWidth > element.clientWidth;
-        
         if (hasScrollableContent) {
-          if (rect.width > 50 && rect.height > 50) {
-            elements.push(element);
-          }
+          elements.add(element);
         }
       }
     });
     
-    const scrollSelectors = [
-      '[role="scrollbar"]',
-      '.scroll-container',
-      '.scrollable',
-      '.overflow-auto',
-      '.overflow-scroll',
-      '.overflow-x-auto',
-      '.overflow-y-auto',
-      '.overflow-x-scroll',
-      '.overflow-y-scroll',
-      '[data-scroll]',
-      '[data-scrollable]'
-    ];
-    
-    scrollSelectors.forEach(selector => {
-      document.querySelectorAll(selector).forEach(element => {
-        if (!elements.includes(element) && element instanceof HTMLElement) {
-          const rect = element.getBoundingClientRect();
-          if (rect.width > 50 && rect.height > 50) {
-            elements.push(element);
-          }
-        }
-      });
-    });
-    
     return elements;
   }
   
-  private findClickableElements(): Element[] {
+  // 요소마다 후보에 포함된 이유를 함께 기록한다 (디버깅용)
+  private findClickableElements(allElements: Element[], layout: LayoutCache): Map<Element, InclusionReason> {
     const selectors = [
       'a[href]',                    // 링크
       'button',                     // 버튼
@@ -159,6 +456,7 @@ export class ElementMarker {
       'input[type="search"]',       // 검색 입력
       'input[type="tel"]',          // 전화번호 입력
       'input[type="url"]',          // URL 입력
+      'input[type="file"]',         // 파일 업로드
       'textarea',                   // 텍스트 에리어
       'select',                     // 셀렉트 박스
       '[onclick]',                  // onclick 이벤트가 있는 요소
@@ -178,93 +476,148 @@ export class ElementMarker {
       '[tabindex]',                 // 탭 인덱스가 있는 요소 (키보드 접근 가능)
     ];
 
-    const elements = Array.from(document.querySelectorAll(selectors.join(', ')));
+    const selector = selectors.join(', ');
     
-    const uniqueElements = Array.from(new Set(elements));
+    const candidates = new Map<Element, InclusionReason>();
+    allElements.forEach(element => {
+      if (element.matches(selector)) {
+        candidates.set(element, 'selector');
+      } else if (element.hasAttribute(LISTENER_ATTRIBUTE)) {
+        // CDP 이벤트 리스너 검사(선택 사항)에서 표시한 요소
+        candidates.set(element, 'event-listener');
+      }
+    });
     
-    return uniqueElements.filter(element => {
-      if (!(element instanceof HTMLElement)) return false;
-      
-      const style = getComputedStyle(element);
-      const rect = element.getBoundingClientRect();
-      
-      if (style.display === 'none' || 
-          style.visibility === 'hidden' || 
-          style.opacity === '0') {
-        return false;
+    this.findCursorPointerElements(allElements, candidates, layout).forEach(element => candidates.set(element, 'cursor-pointer'));
+    
+    const filtered = new Map<Element, InclusionReason>();
+    candidates.forEach((reason, element) => {
+      if (this.passesClickableFilters(element, layout)) {
+        filtered.set(element, reason);
       }
+    });
+    return filtered;
+  }
+
+  // React/Vue 등은 <div>에 클릭 핸들러만 달고 cursor: pointer로 표시하는 경우가 많다.
+  // cursor는 상속되므로 pointer가 시작되는 가장 바깥 요소만 고르고, 이미 후보인 요소의 자손은 제외한다.
+  // 모든 요소의 스타일을 읽지 않도록 viewport와 겹치는 요소만 검사한다
+  private findCursorPointerElements(allElements: Element[], clickable: Map<Element, InclusionReason>, layout: LayoutCache): Element[] {
+    const results: Element[] = [];
+    
+    allElements.forEach(element => {
+      if (!(element instanceof HTMLElement) || clickable.has(element)) return;
+      if (element === document.body || element === document.documentElement) return;
+      if (!layout.intersectsViewport(element)) return;
+      if (layout.style(element).cursor !== 'pointer') return;
       
-      if (rect.top < -1000 || rect.left < -1000) {
-        return false;
-      }
+      const parent = this.getParentElement(element);
+      if (parent && layout.style(parent).cursor === 'pointer') return;
       
-      if (rect.width <= 0 || rect.height <= 0 || 
-          (rect.width < 10 && rect.height < 10)) {
-        return false;
+      for (let ancestor = parent; ancestor; ancestor = this.getParentElement(ancestor)) {
+        if (clickable.has(ancestor)) return;
       }
       
-      if (style.overflow === 'hidden' && (rect.width < 1 || rect.height < 1)) {
+      results.push(element);
+    });
+    
+    return results;
+  }
+
+  private getParentElement(element: Element): Element | null {
+    if (element.parentElement) return element.parentElement;
+    const root = element.getRootNode();
+    return root instanceof ShadowRoot ? root.host : null;
+  }
+
+  // rect 검사가 style 검사보다 싸므로 먼저 수행한다
+  private passesClickableFilters(element: Element, layout: LayoutCache): boolean {
+    if (!(element instanceof HTMLElement)) return false;
+    
+    const rect = layout.rect(element);
+    
+    if (rect.top < -1000 || rect.left < -1000) {
+      return false;
+    }
+    
+    if (rect.width <= 0 || rect.height <= 0 || 
+        (rect.width < 10 && rect.height < 10)) {
+      return false;
+    }
+    
+    const style = layout.style(element);
+    
+    // 파일 인풋은 label로 꾸미고 투명하게 숨기는 경우가 많아 opacity는 검사하지 않는다
+    const isFileInput = element instanceof HTMLInputElement && element.type === 'file';
+    
+    if (style.display === 'none' || 
+        style.visibility === 'hidden' || 
+        (style.opacity === '0' && !isFileInput)) {
+      return false;
+    }
+    
+    if (style.overflow === 'hidden' && (rect.width < 1 || rect.height < 1)) {
+      return false;
+    }
+    
+    const skipPatterns = [
+      'skip-to',
+      'skip-nav',
+      'screen-reader',
+      'sr-only',
+      'visually-hidden',
+      'a11y-hidden',
+      'assistive-text'
+    ];
+    
+    const elementId = element.id?.toLowerCase() || '';
+    const elementClass = element.className?.toString().toLowerCase() || '';
+    const ariaLabel = element.getAttribute('aria-label')?.toLowerCase() || '';
+    
+    for (const pattern of skipPatterns) {
+      if (elementId.includes(pattern) || 
+          elementClass.includes(pattern) ||
+          ariaLabel.includes('skip to')) {
         return false;
       }
-      
-      const skipPatterns = [
-        'skip-to',
-        'skip-nav',
-        'screen-reader',
-        'sr-only',
-        'visually-hidden',
-        'a11y-hidden',
-        'assistive-text'
-      ];
-      
-      const elementId = element.id?.toLowerCase() || '';
-      const elementClass = element.className?.toString().toLowerCase() || '';
-      const ariaLabel = element.getAttribute('aria-label')?.toLowerCase() || '';
-      
-      for (const pattern of skipPatterns) {
-        if (elementId.includes(pattern) || 
-            elementClass.includes(pattern) ||
-            ariaLabel.includes('skip to')) {
-          return false;
-        }
-      }
-      
-      const isInViewport = (
-        rect.top >= 0 &&
-        rect.left >= 0 &&
-        rect.bottom <= (window.innerHeight || document.documentElement.clientHeight) &&
-        rect.right <= (window.innerWidth || document.documentElement.clientWidth)
-      );
-      
-      if (!isInViewport && style.position === 'absolute') {
-        const zIndex = parseInt(style.zIndex || '0');
-        if (zIndex > 9000) {
-          return false;
-        }
-      }
-      
-      if (element.getAttribute('aria-hidden') === 'true') {
+    }
+    
+    const isInViewport = (
+      rect.top >= 0 &&
+      rect.left >= 0 &&
+      rect.bottom <= layout.viewportHeight &&
+      rect.right <= layout.viewportWidth
+    );
+    
+    if (!isInViewport && style.position === 'absolute') {
+      const zIndex = parseInt(style.zIndex || '0');
+      if (zIndex > 9000) {
         return false;
       }
-      
-      if (element.tagName === 'A' || element.tagName === 'BUTTON') {
-        const bgColor = style.backgroundColor;
-        const color = style.color;
-        if ((bgColor === 'transparent' || bgColor === 'rgba(0, 0, 0, 0)') &&
-            (color === 'transparent' || color === 'rgba(0, 0, 0, 0)')) {
-          return false;
-        }
+    }
+    
+    if (element.getAttribute('aria-hidden') === 'true') {
+      return false;
+    }
+    
+    if (element.tagName === 'A' || element.tagName === 'BUTTON') {
+      const bgColor = style.backgroundColor;
+      const color = style.color;
+      if ((bgColor === 'transparent' || bgColor === 'rgba(0, 0, 0, 0)') &&
+          (color === 'transparent' || color === 'rgba(0, 0, 0, 0)')) {
+        return false;
       }
-      
-      return true;
-    });
+    }
+    
+    return true;
   }
 
   private getElementText(element: Element): string {
     let text = '';
     
     if (element instanceof HTMLInputElement) {
-      text = element.placeholder || element.value || element.type;
+      // 입력 값은 value로 따로 보내고, 비밀번호가 마스킹 없이 새지 않도록 text에는 넣지 않는다
+      text = element.placeholder || element.type;
     } else if (element instanceof HTMLElement) {
       const walker = document.createTreeWalker(
         element,
@@ -300,6 +653,69 @@ export class ElementMarker {
     return text.slice(0, 100);
   }
 
+  private getElementState(element: Element, activeElement: Element | null): ElementState | undefined {
+    const state: ElementState = {};
+    const aria = (name: string) => element.getAttribute(`aria-${name}`);
+
+    if (element.matches(':disabled') || aria('disabled') === 'true') {
+      state.disabled = true;
+    }
+
+    if (element instanceof HTMLInputElement && (element.type === 'checkbox' || element.type === 'radio')) {
+      state.checked = element.indeterminate ? 'mixed' : element.checked;
+    } else if (aria('checked') !== null) {
+      state.checked = aria('checked') === 'mixed' ? 'mixed' : aria('checked') === 'true';
+    } else if (aria('pressed') !== null) {
+      state.checked = aria('pressed') === 'mixed' ? 'mixed' : aria('pressed') === 'true';
+    }
+
+    if ((element instanceof HTMLOptionElement && element.selected) || aria('selected') === 'true') {
+      state.selected = true;
+    }
+
+    if (element instanceof HTMLDetailsElement) {
+      state.expanded = element.open;
+    } else if (element.localName === 'summary' && element.parentElement instanceof HTMLDetailsElement) {
+      state.expanded = element.parentElement.open;
+    } else if (aria('expanded') !== null) {
+      state.expanded = aria('expanded') === 'true';
+    }
+
+    if (element === activeElement) {
+      state.focused = true;
+    }
+    if ((element as HTMLInputElement).required || aria('required') === 'true') {
+      state.required = true;
+    }
+    if ((element as HTMLInputElement).readOnly || aria('readonly') === 'true') {
+      state.readonly = true;
+    }
+
+    return Object.keys(state).length > 0 ? state : undefined;
+  }
+
+  private getElementValue(element: Element): string | undefined {
+    if (element instanceof HTMLInputElement) {
+      if (['checkbox', 'radio', 'button', 'submit', 'reset', 'image', 'file', 'hidden'].includes(element.type)) {
+        return undefined;
+      }
+      if (!element.value) return undefined;
+      return element.type === 'password' ? '********' : element.value.slice(0, 100);
+    }
+    if (element instanceof HTMLTextAreaElement) {
+      return element.value ? element.value.slice(0, 100) : undefined;
+    }
+    return undefined;
+  }
+
+  // element.labels는 label[for]와 요소를 감싼 label을 모두 포함한다
+  private getLabelText(element: Element): string | undefined {
+    const labels = (element as HTMLInputElement).labels;
+    const label = labels && labels.length > 0 ? labels[0] : element.closest('label');
+    const text = label?.textContent?.replace(/\s+/g, ' ').trim();
+    return text ? text.slice(0, 80) : undefined;
+  }
+
   private getElementAttributes(element: Element): Record<string, string> {
     const attrs: Record<string, string> = {};
     const importantAttrs = ['id', 'class', 'name', 'type', 'href', 'src', 'alt', 'title', 'aria-label', 'placeholder', 'value'];
@@ -311,40 +727,71 @@ export class ElementMarker {
       }
     });
 
-    if (element instanceof HTMLInputElement && element.value) {
+    // 비밀번호는 getElementValue의 마스킹된 값만 보낸다
+    if (element instanceof HTMLInputElement && element.type === 'password') {
+      delete attrs['value'];
+    } else if (element instanceof HTMLInputElement && element.value) {
       attrs['value'] = element.value;
     }
     
     return attrs;
   }
 
-  private isElementVisible(rect: DOMRect): boolean {
-    const inViewport = (
-      rect.top >= 0 &&
-      rect.left >= 0 &&
-      rect.bottom <= (window.innerHeight || document.documentElement.clientHeight) &&
-      rect.right <= (window.innerWidth || document.documentElement.clientWidth) &&
-      rect.width > 0 &&
-      rect.height > 0
-    );
-    
-    if (!inViewport) return false;
-    
-    const centerX = rect.left + rect.width / 2;
-    const centerY = rect.top + rect.height / 2;
-    const elementAtPoint = document.elementFromPoint(centerX, centerY);
-    
-    const element = document.querySelector(`[data-voyager-checking="true"]`) as HTMLElement;
-    if (element && elementAtPoint) {
-      const isVisible = element === elementAtPoint || element.contains(elementAtPoint);
-      element.removeAttribute('data-voyager-checking');
-      return isVisible;
+  private getSelectOptions(select: HTMLSelectElement): SelectOption[] {
+    return Array.from(select.options).map(option => ({
+      value: option.value,
+      label: option.label || option.text.trim(),
+      selected: option.selected,
+      disabled: option.disabled || undefined
+    }));
+  }
+
+  selectOption(id: number, option: string): SelectOption {
+    const element = this.elementRefs.get(id);
+    if (!element || !element.isConnected) {
+      throw new Error(`Element with id ${id} not found`);
     }
-    
-    return true;
+    if (!(element instanceof HTMLSelectElement)) {
+      throw new Error(`Element ${id} is <${element.tagName.toLowerCase()}>, not <select>`);
+    }
+
+    const options = Array.from(element.options);
+    const wanted = option.trim();
+    const lowered = wanted.toLowerCase();
+    const match = options.find(opt => opt.value === wanted) ||
+      options.find(opt => (opt.label || opt.text).trim() === wanted) ||
+      options.find(opt => (opt.label || opt.text).trim().toLowerCase() === lowered) ||
+      options.find(opt => (opt.label || opt.text).trim().toLowerCase().includes(lowered));
+
+    if (!match) {
+      const available = options.map(opt => (opt.label || opt.text).trim()).join(', ');
+      throw new Error(`Option "${option}" not found in element ${id}. Available: ${available}`);
+    }
+    if (match.disabled) {
+      throw new Error(`Option "${option}" is disabled`);
+    }
+
+    // React 등 프레임워크의 value tracker를 우회하기 위해 네이티브 setter를 사용
+    const valueSetter = Object.getOwnPropertyDescriptor(HTMLSelectElement.prototype, 'value')?.set;
+    if (valueSetter) {
+      valueSetter.call(element, match.value);
+    } else {
+      element.value = match.value;
+    }
+    match.selected = true;
+
+    element.dispatchEvent(new Event('input', { bubbles: true }));
+    element.dispatchEvent(new Event('change', { bubbles: true }));
+
+    console.log(`[ElementMarker] Selected option "${match.value}" on element ${id}`);
+    return {
+      value: match.value,
+      label: (match.label || match.text).trim(),
+      selected: true
+    };
   }
 
-  private createMarker(id: number, rect: DOMRect, isScrollable: boolean = false): void {
+  private createMarker(id: number, rect: DOMRect, isScrollable: boolean = false): HTMLElement {
     const marker = document.createElement('div');
     marker.className = 'voyager-marker';
     marker.textContent = isScrollable ? `⇕${id}` : String(id);
@@ -371,14 +818,28 @@ export class ElementMarker {
       line-height: 1.2;
     `;
     
+    this.positionMarker(marker, rect);
+    this.markers.set(id, marker);
+    return marker;
+  }
+
+  private positionMarker(marker: HTMLElement, rect: DOMRect): void {
     marker.style.left = `${rect.left - 2}px`;
     marker.style.top = `${rect.top - 2}px`;
-    
-    document.body.appendChild(marker);
-    this.markers.set(id, marker);
   }
 
+  // 추적 중에는 다음 마킹에서 다시 쓸 수 있도록 마커를 숨기기만 한다
   clearMarkers(): void {
+    if (this.changeTracker.isActive()) {
+      console.log(`[ElementMarker] Hiding ${this.markers.size} markers`);
+      this.markers.forEach(marker => marker.style.display = 'none');
+      return;
+    }
+    
+    this.resetState();
+  }
+
+  private resetState(): void {
     console.log(`[ElementMarker] Clearing ${this.markers.size} markers`);
     
     this.markers.forEach(marker => {
@@ -388,7 +849,14 @@ export class ElementMarker {
     });
     
     this.markers.clear();
+    this.elementRefs.forEach(element => element.removeAttribute('data-voyager-element-id'));
+    this.elementRefs.clear();
     this.markedElements = [];
+    this.candidates = new Map();
+    this.idsByElement = new WeakMap();
+    this.infoCache = new WeakMap();
+    this.dialogOpen = false;
+    this.lastDiff = null;
   }
 
   getMarkedElements(): MarkedElement[] {
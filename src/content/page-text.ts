@@ -0,0 +1,17 @@
+// 스크린샷 없이 페이지를 관찰할 때 모델에게 보내는 읽기 쉬운 텍스트 요약
+export function getReadablePageText(maxLength: number = 4000): string {
+  const title = document.title ? `Title: ${document.title}\n` : '';
+  const url = `URL: ${window.location.href}\n\n`;
+
+  const body = (document.body?.innerText || '')
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+
+  const text = `${title}${url}${body}`;
+  if (text.length <= maxLength) {
+    return text;
+  }
+  return `${text.slice(0, maxLength)}\n... (truncated, ${text.length - maxLength} more characters)`;
+}
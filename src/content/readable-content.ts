@@ -0,0 +1,354 @@
+import type { ContentChunk, ContentExtractOptions, ExtractedContent } from '../shared/types';
+
+// 모델에게 한 번에 보내는 구간 크기 (문자 수)
+const CHUNK_SIZE = 2000;
+const DEFAULT_MAX_CHUNKS = 3;
+
+// 본문이 아닌 것이 확실한 요소. 사이트 header/footer는 본문 후보 점수에서 걸러진다
+const SKIP_SELECTOR = [
+  'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'object', 'embed',
+  'button', 'input', 'select', 'textarea',
+  'nav', '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="complementary"]',
+  '[hidden]', '[aria-hidden="true"]', '.voyager-marker', '.voyager-crosshair'
+].join(', ');
+
+const BLOCK_TAGS = new Set([
+  'ADDRESS', 'ARTICLE', 'ASIDE', 'BLOCKQUOTE', 'DD', 'DETAILS', 'DIALOG', 'DIV', 'DL', 'DT', 'FIELDSET',
+  'FIGCAPTION', 'FIGURE', 'FOOTER', 'FORM', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'HEADER', 'HR', 'LI',
+  'MAIN', 'OL', 'P', 'PRE', 'SECTION', 'SUMMARY', 'TABLE', 'UL'
+]);
+
+const POSITIVE_HINT = /article|body|content|entry|main|page|post|text|blog|story|prose/i;
+const NEGATIVE_HINT = /comment|footer|footnote|masthead|menu|nav|sidebar|sponsor|share|social|related|promo|advert|banner|popup|cookie/i;
+
+// Readability 방식으로 본문 영역을 골라 Markdown으로 변환하고, 구간으로 나눠 필요한 부분만 반환한다
+export function extractReadableContent(options: ContentExtractOptions = {}): ExtractedContent {
+  const root = findMainContent();
+  const markdown = normalizeMarkdown(convertChildren(root, 0));
+  const chunks = splitIntoChunks(markdown);
+  const maxChunks = options.maxChunks || DEFAULT_MAX_CHUNKS;
+
+  let selected: ContentChunk[];
+  if (options.chunk !== undefined) {
+    selected = chunks.filter(chunk => chunk.index >= options.chunk! && chunk.index < options.chunk! + maxChunks);
+  } else if (options.query?.trim()) {
+    selected = searchChunks(chunks, options.query, maxChunks);
+  } else {
+    selected = chunks.slice(0, maxChunks);
+  }
+
+  console.log(`[ReadableContent] Extracted ${markdown.length} characters in ${chunks.length} chunks from <${root.tagName.toLowerCase()}>, returning ${selected.length}`);
+  return {
+    title: document.title,
+    url: window.location.href,
+    totalChunks: chunks.length,
+    totalLength: markdown.length,
+    outline: chunks.map(chunk => chunk.heading || ''),
+    chunks: selected,
+    query: options.query?.trim() || undefined
+  };
+}
+
+// <article>/<main>이 분명하면 그대로 쓰고, 아니면 문단이 많이 모인 요소에 점수를 매겨 고른다
+function findMainContent(): Element {
+  const body = document.body || document.documentElement;
+  const landmark = findDominantLandmark();
+  if (landmark) return landmark;
+
+  const scores = new Map<Element, number>();
+  body.querySelectorAll('p, pre, td, blockquote, li').forEach(paragraph => {
+    const text = paragraph.textContent?.trim() || '';
+    if (text.length < 25 || paragraph.closest(SKIP_SELECTOR)) return;
+
+    const score = 1 + text.split(/[,،、，]/).length + Math.min(Math.floor(text.length / 100), 3);
+    const parent = paragraph.parentElement;
+    const grandparent = parent?.parentElement;
+    if (parent) scores.set(parent, (scores.get(parent) ?? classWeight(parent)) + score);
+    if (grandparent) scores.set(grandparent, (scores.get(grandparent) ?? classWeight(grandparent)) + score / 2);
+  });
+
+  let best: Element | null = null;
+  let bestScore = 0;
+  scores.forEach((score, element) => {
+    // 링크가 대부분인 영역(메뉴, 목록 페이지의 사이드바)은 점수를 깎는다
+    const adjusted = score * (1 - linkDensity(element));
+    if (adjusted > bestScore) {
+      best = element;
+      bestScore = adjusted;
+    }
+  });
+
+  return best && bestScore >= 20 ? best : body;
+}
+
+// 목록/검색 결과 페이지는 카드마다 <article>이 있으므로, 가장 큰 article 하나가 아니라
+// main이 다른 랜드마크를 감싸거나 랜드마크 하나가 내용 대부분을 차지할 때만 랜드마크를 쓴다
+function findDominantLandmark(): Element | null {
+  const landmarks = Array.from(document.querySelectorAll('article, main, [role="main"], [itemprop="articleBody"]'))
+    .filter(element => textLength(element) > 500);
+  if (landmarks.length === 0) return null;
+
+  const mains = landmarks.filter(element => element.matches('main, [role="main"]'));
+  const outer = landmarks.filter(element => !landmarks.some(other => other !== element && other.contains(element)));
+  const largest = outer.reduce((best, element) => textLength(element) > textLength(best) ? element : best);
+  const othersLength = outer.reduce((sum, element) => element === largest ? sum : sum + textLength(element), 0);
+  let main: Element;
+  if (textLength(largest) > othersLength * 3) {
+    // 본문 article 옆에 관련 글 카드 몇 개가 있는 경우처럼 하나가 압도적으로 크다
+    main = largest;
+  } else if (mains.length === 1 && landmarks.every(element => mains[0].contains(element))) {
+    main = mains[0];
+  } else {
+    return null;
+  }
+
+  // main 안에 내용 대부분을 담은 랜드마크(본문 article)가 하나뿐이면 그쪽으로 좁힌다
+  const inner = landmarks.filter(element => element !== main && main.contains(element) && textLength(element) > textLength(main) * 0.5);
+  const innermost = inner.filter(element => !inner.some(other => other !== element && element.contains(other)));
+  return innermost.length === 1 ? innermost[0] : main;
+}
+
+function classWeight(element: Element): number {
+  const hint = `${element.id} ${element.className?.toString() || ''}`;
+  let weight = 0;
+  if (POSITIVE_HINT.test(hint)) weight += 25;
+  if (NEGATIVE_HINT.test(hint)) weight -= 25;
+  return weight;
+}
+
+function textLength(element: Element): number {
+  return (element.textContent || '').replace(/\s+/g, ' ').trim().length;
+}
+
+function linkDensity(element: Element): number {
+  const total = textLength(element);
+  if (total === 0) return 0;
+  let linked = 0;
+  element.querySelectorAll('a').forEach(link => linked += textLength(link));
+  return Math.min(linked / total, 1);
+}
+
+function isHidden(element: Element): boolean {
+  if (element.matches(SKIP_SELECTOR)) return true;
+  return typeof element.checkVisibility === 'function' && !element.checkVisibility();
+}
+
+// 블록 요소 사이의 인라인 내용은 문단 하나로 모은다
+function convertChildren(parent: Element, listDepth: number): string {
+  const blocks: string[] = [];
+  let inline = '';
+
+  const flush = () => {
+    const paragraph = inline.replace(/[ \t]+/g, ' ').replace(/ ?\n ?/g, '\n').trim();
+    if (paragraph) blocks.push(paragraph);
+    inline = '';
+  };
+
+  parent.childNodes.forEach(node => {
+    if (node instanceof Element && BLOCK_TAGS.has(node.tagName)) {
+      flush();
+      if (isHidden(node)) return;
+      const block = convertBlock(node, listDepth);
+      if (block.trim()) blocks.push(block);
+    } else {
+      inline += convertInline(node);
+    }
+  });
+  flush();
+
+  return blocks.join('\n\n');
+}
+
+function convertBlock(element: Element, listDepth: number): string {
+  const tag = element.tagName;
+
+  if (/^H[1-6]$/.test(tag)) {
+    const text = inlineText(element);
+    return text ? `${'#'.repeat(Number(tag[1]))} ${text}` : '';
+  }
+
+  switch (tag) {
+    case 'UL':
+    case 'OL':
+      return convertList(element, listDepth);
+    case 'TABLE':
+      return convertTable(element as HTMLTableElement);
+    case 'PRE': {
+      const code = (element.textContent || '').replace(/\n+$/, '');
+      return code.trim() ? `\`\`\`\n${code}\n\`\`\`` : '';
+    }
+    case 'BLOCKQUOTE':
+      return convertChildren(element, listDepth)
+        .split('\n')
+        .map(line => `> ${line}`.trimEnd())
+        .join('\n');
+    case 'HR':
+      return '---';
+    default:
+      return convertChildren(element, listDepth);
+  }
+}
+
+function convertList(list: Element, depth: number): string {
+  const ordered = list.tagName === 'OL';
+  const indent = '  '.repeat(depth);
+  const items: string[] = [];
+
+  Array.from(list.children).forEach(item => {
+    if (item.tagName !== 'LI' || isHidden(item)) return;
+    const marker = ordered ? `${items.length + 1}.` : '-';
+    const content = convertChildren(item, depth + 1);
+    if (!content) return;
+
+    // 항목의 첫 줄에만 표시를 붙이고, 중첩 목록은 이미 들여쓰기되어 있다
+    const [first, ...rest] = content.split('\n').filter(line => line.trim());
+    const restLines = rest.map(line => /^\s*([-*]|\d+\.) /.test(line) ? line : `${indent}  ${line}`);
+    items.push([`${indent}${marker} ${first.trim()}`, ...restLines].join('\n'));
+  });
+
+  return items.join('\n');
+}
+
+function convertTable(table: HTMLTableElement): string {
+  const rows = Array.from(table.rows)
+    .filter(row => !isHidden(row))
+    .map(row => Array.from(row.cells).map(cell => inlineText(cell).replace(/\|/g, '\\|').replace(/\n/g, ' ')));
+  if (rows.length === 0) return '';
+
+  const columns = Math.max(...rows.map(row => row.length));
+  // 칸이 하나뿐인 표는 레이아웃용인 경우가 많으므로 문단으로 변환한다
+  if (columns <= 1) {
+    return rows.map(row => row[0] || '').filter(Boolean).join('\n\n');
+  }
+
+  const pad = (row: string[]) => [...row, ...Array(columns - row.length).fill('')];
+  const [header, ...body] = rows;
+  return [
+    `| ${pad(header).join(' | ')} |`,
+    `| ${Array(columns).fill('---').join(' | ')} |`,
+    ...body.map(row => `| ${pad(row).join(' | ')} |`)
+  ].join('\n');
+}
+
+function convertInline(node: Node): string {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return (node.textContent || '').replace(/\s+/g, ' ');
+  }
+  if (!(node instanceof Element) || isHidden(node)) {
+    return '';
+  }
+
+  const content = () => Array.from(node.childNodes).map(convertInline).join('');
+
+  switch (node.tagName) {
+    case 'BR':
+      return '\n';
+    case 'A': {
+      const text = content().trim();
+      const href = (node as HTMLAnchorElement).href;
+      if (!text) return '';
+      return href && !href.startsWith('javascript:') ? `[${text}](${href})` : text;
+    }
+    case 'STRONG':
+    case 'B': {
+      const text = content().trim();
+      return text ? ` **${text}** ` : '';
+    }
+    case 'EM':
+    case 'I': {
+      const text = content().trim();
+      return text ? ` *${text}* ` : '';
+    }
+    case 'CODE': {
+      const text = (node.textContent || '').trim();
+      return text ? `\`${text}\`` : '';
+    }
+    case 'IMG': {
+      const alt = node.getAttribute('alt')?.trim();
+      return alt ? `![${alt}](${(node as HTMLImageElement).src})` : '';
+    }
+    default:
+      // 인라인 요소 안에 블록 요소가 들어 있는 경우(<a><div>...</div></a> 등)도 텍스트는 유지한다
+      return Array.from(node.childNodes)
+        .map(child => child instanceof Element && BLOCK_TAGS.has(child.tagName) ? `\n${convertChildren(child, 0)}\n` : convertInline(child))
+        .join('');
+  }
+}
+
+function inlineText(element: Element): string {
+  return Array.from(element.childNodes).map(convertInline).join('').replace(/\s+/g, ' ').trim();
+}
+
+function normalizeMarkdown(markdown: string): string {
+  return markdown
+    .replace(/ +\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .replace(/(\*{1,2}) +([.,;:!?)])/g, '$1$2')
+    .trim();
+}
+
+// 문단 경계에서 나누고, 구간마다 가장 최근 제목을 함께 기록한다
+function splitIntoChunks(markdown: string): ContentChunk[] {
+  const chunks: ContentChunk[] = [];
+  let current: string[] = [];
+  let currentLength = 0;
+  let heading: string | undefined;
+  let chunkHeading: string | undefined;
+
+  const push = () => {
+    if (current.length === 0) return;
+    chunks.push({ index: chunks.length + 1, heading: chunkHeading, text: current.join('\n\n') });
+    current = [];
+    currentLength = 0;
+  };
+
+  markdown.split(/\n{2,}/).forEach(block => {
+    const title = block.match(/^#{1,6} (.+)$/)?.[1];
+    if (title) heading = title;
+
+    // 큰 제목에서 구간을 새로 시작하면 구간이 글의 구조를 따르게 된다
+    const startsSection = !!title && /^#{1,3} /.test(block) && currentLength > CHUNK_SIZE / 2;
+    if (startsSection || currentLength + block.length > CHUNK_SIZE) push();
+    if (current.length === 0) chunkHeading = heading;
+
+    for (let offset = 0; offset < block.length; offset += CHUNK_SIZE) {
+      const piece = block.slice(offset, offset + CHUNK_SIZE);
+      if (offset > 0) {
+        push();
+        chunkHeading = heading;
+      }
+      current.push(piece);
+      currentLength += piece.length + 2;
+    }
+  });
+  push();
+
+  return chunks;
+}
+
+// 검색어 전체가 나오는 구간을 우선하고, 그다음 단어별 등장 횟수로 순위를 매긴다
+function searchChunks(chunks: ContentChunk[], query: string, maxChunks: number): ContentChunk[] {
+  const phrase = query.trim().toLowerCase();
+  const terms = phrase.split(/\s+/).filter(term => term.length > 1);
+
+  return chunks
+    .map(chunk => {
+      const haystack = `${chunk.heading || ''}\n${chunk.text}`.toLowerCase();
+      let score = countOccurrences(haystack, phrase) * 5;
+      terms.forEach(term => score += countOccurrences(haystack, term));
+      return { ...chunk, score };
+    })
+    .filter(chunk => chunk.score > 0)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, maxChunks)
+    .sort((a, b) => a.index - b.index);
+}
+
+function countOccurrences(text: string, term: string): number {
+  if (!term) return 0;
+  let count = 0;
+  for (let position = text.indexOf(term); position !== -1; position = text.indexOf(term, position + term.length)) {
+    count++;
+  }
+  return count;
+}
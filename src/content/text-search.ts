@@ -0,0 +1,180 @@
+import type { FindOptions, FindResult, FindSnippet } from '../shared/types';
+
+const HIGHLIGHT_NAME = 'voyager-find';
+const HIGHLIGHT_STYLE_ID = 'voyager-find-style';
+const SNIPPET_CONTEXT = 40;
+const DEFAULT_MAX_SNIPPETS = 5;
+const SKIP_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'TEXTAREA']);
+const BLOCK_DISPLAY = /^(block|flex|grid|table|list-item|table-row|table-cell)/;
+
+interface TextSegment {
+  node: Text;
+  start: number; // 이어 붙인 전체 텍스트에서의 시작 위치
+}
+
+let clearTimer: ReturnType<typeof setTimeout> | undefined;
+
+// 화면 밖을 포함한 페이지 전체 텍스트에서 문자열 또는 /정규식/flags를 찾고,
+// matchIndex번째(1부터) 일치 위치로 스크롤해 강조 표시한다
+export function findInPage(options: FindOptions): FindResult {
+  const pattern = buildPattern(options.query);
+  const { text, segments } = collectPageText();
+
+  const matches: Array<{ start: number; end: number }> = [];
+  for (const match of text.matchAll(pattern)) {
+    if (match[0].length === 0) continue;
+    matches.push({ start: match.index!, end: match.index! + match[0].length });
+  }
+
+  const matchIndex = matches.length > 0 ? Math.min(Math.max(options.matchIndex || 1, 1), matches.length) : 0;
+  const maxSnippets = options.maxSnippets || DEFAULT_MAX_SNIPPETS;
+  // 이동한 일치 항목 주변부터 보여 준다
+  const first = Math.max(0, Math.min(matchIndex - 1, matches.length - maxSnippets));
+  const snippets: FindSnippet[] = matches.slice(first, first + maxSnippets).map((match, i) => ({
+    index: first + i + 1,
+    text: getSnippet(text, match.start, match.end)
+  }));
+
+  if (matchIndex > 0) {
+    const target = matches[matchIndex - 1];
+    const range = createRange(segments, target.start, target.end);
+    if (range) {
+      range.startContainer.parentElement?.scrollIntoView({ block: 'center', inline: 'nearest', behavior: 'instant' });
+      highlightRange(range, options.highlightDuration);
+    }
+  }
+
+  console.log(`[TextSearch] "${options.query}": ${matches.length} matches, showing match ${matchIndex}`);
+  return {
+    query: options.query,
+    total: matches.length,
+    matchIndex,
+    snippets
+  };
+}
+
+function clearFindHighlight(): void {
+  clearTimeout(clearTimer);
+  CSS.highlights?.delete(HIGHLIGHT_NAME);
+}
+
+// "/pattern/flags" 형식이면 정규식으로, 아니면 대소문자를 구분하지 않는 일반 문자열로 찾는다.
+// "/docs/api" 같은 경로는 flags 자리가 올바른 플래그가 아니므로 일반 문자열로 찾는다
+function buildPattern(query: string): RegExp {
+  const regex = query.match(/^\/(.+)\/([a-z]*)$/s);
+  if (regex && /^[dimsuv]*$/.test(regex[2])) {
+    const flags = `${regex[2]}g`;
+    try {
+      return new RegExp(regex[1], flags);
+    } catch (error) {
+      throw new Error(`Invalid regular expression ${query}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  if (!query.trim()) {
+    throw new Error('Find requires a non-empty query');
+  }
+  return new RegExp(query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+'), 'gi');
+}
+
+// 보이는 텍스트 노드를 문서 순서대로 이어 붙이고, 블록 경계에는 줄바꿈을 넣어 단어가 붙지 않게 한다.
+// shadow root는 host를 만난 위치에서 바로 들어가 일치 번호가 화면 순서를 따르게 한다
+function collectPageText(): { text: string; segments: TextSegment[] } {
+  const visibility = new Map<Element, boolean>();
+  const isVisible = (element: Element): boolean => {
+    let visible = visibility.get(element);
+    if (visible === undefined) {
+      visible = !SKIP_TAGS.has(element.tagName) &&
+        !element.closest('.voyager-marker, .voyager-crosshair') &&
+        (typeof element.checkVisibility !== 'function' || element.checkVisibility());
+      visibility.set(element, visible);
+    }
+    return visible;
+  };
+
+  const blocks = new Map<Element, Element>();
+  const segments: TextSegment[] = [];
+  let text = '';
+  let previousBlock: Element | null = null;
+
+  const walk = (root: Node) => {
+    const walker = document.createTreeWalker(root, NodeFilter.SHOW_ELEMENT | NodeFilter.SHOW_TEXT);
+    let node: Node | null;
+    while ((node = walker.nextNode())) {
+      if (node instanceof Element) {
+        if (node.shadowRoot) walk(node.shadowRoot);
+        continue;
+      }
+
+      const parent = node.parentElement;
+      if (!parent || !node.textContent || !isVisible(parent)) continue;
+
+      const block = getBlockAncestor(parent, blocks);
+      if (previousBlock && block !== previousBlock) text += '\n';
+      previousBlock = block;
+
+      segments.push({ node: node as Text, start: text.length });
+      text += node.textContent;
+    }
+  };
+  walk(document.body || document.documentElement);
+
+  return { text, segments };
+}
+
+function getBlockAncestor(element: Element, cache: Map<Element, Element>): Element {
+  let block = cache.get(element);
+  if (!block) {
+    const parent = element.parentElement;
+    block = !parent || BLOCK_DISPLAY.test(getComputedStyle(element).display) ? element : getBlockAncestor(parent, cache);
+    cache.set(element, block);
+  }
+  return block;
+}
+
+function createRange(segments: TextSegment[], start: number, end: number): Range | null {
+  const locate = (position: number, isEnd: boolean) => {
+    for (let i = segments.length - 1; i >= 0; i--) {
+      const segment = segments[i];
+      const inside = isEnd ? position > segment.start : position >= segment.start;
+      if (inside) {
+        return { node: segment.node, offset: Math.min(position - segment.start, segment.node.length) };
+      }
+    }
+    return null;
+  };
+
+  const from = locate(start, false);
+  const to = locate(end, true);
+  if (!from || !to) return null;
+
+  const range = document.createRange();
+  range.setStart(from.node, from.offset);
+  range.setEnd(to.node, to.offset);
+  return range;
+}
+
+function getSnippet(text: string, start: number, end: number): string {
+  const before = text.slice(Math.max(0, start - SNIPPET_CONTEXT), start);
+  const after = text.slice(end, end + SNIPPET_CONTEXT);
+  const clean = (value: string) => value.replace(/\s+/g, ' ');
+  return `${start > SNIPPET_CONTEXT ? '…' : ''}${clean(before)}[${clean(text.slice(start, end))}]${clean(after)}${end + SNIPPET_CONTEXT < text.length ? '…' : ''}`;
+}
+
+// CSS Custom Highlight API는 DOM을 바꾸지 않으므로 페이지 스크립트나 변화 추적에 영향을 주지 않는다
+function highlightRange(range: Range, duration: number = 10000): void {
+  if (!CSS.highlights) {
+    console.warn('[TextSearch] CSS highlights are not supported');
+    return;
+  }
+
+  if (!document.getElementById(HIGHLIGHT_STYLE_ID)) {
+    const style = document.createElement('style');
+    style.id = HIGHLIGHT_STYLE_ID;
+    style.textContent = `::highlight(${HIGHLIGHT_NAME}) { background-color: #ffeb3b; color: #000; }`;
+    (document.head || document.documentElement).appendChild(style);
+  }
+
+  clearTimeout(clearTimer);
+  CSS.highlights.set(HIGHLIGHT_NAME, new Highlight(range));
+  clearTimer = setTimeout(clearFindHighlight, duration);
+}
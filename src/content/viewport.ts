@@ -0,0 +1,14 @@
+import type { ViewportMetrics } from '../shared/types';
+
+// 브라우저 줌은 content script에서 알 수 없으므로 background가 채운다
+export function getViewportMetrics(): Omit<ViewportMetrics, 'zoom'> {
+  const viewport = window.visualViewport;
+  return {
+    devicePixelRatio: window.devicePixelRatio || 1,
+    pinchScale: viewport?.scale ?? 1,
+    offsetX: viewport?.offsetLeft ?? 0,
+    offsetY: viewport?.offsetTop ?? 0,
+    width: viewport?.width ?? window.innerWidth,
+    height: viewport?.height ?? window.innerHeight,
+  };
+}
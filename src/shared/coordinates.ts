@@ -0,0 +1,47 @@
+import type { MarkedElement, ScreenshotData, ViewportMetrics } from './types';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// 좌표 공간
+// - viewport: getBoundingClientRect와 같은 layout viewport 기준 CSS 픽셀 (MarkedElement.rect)
+// - input: CDP Input 이벤트 좌표, visual viewport 기준 CSS 픽셀 (브라우저 줌과 핀치 배율은 Chrome이 적용)
+// - screenshot: 캡처 이미지의 픽셀, visual viewport 기준이며 ScreenshotData.scale 배율
+export function viewportToInput(point: Point, metrics: ViewportMetrics): Point {
+  return {
+    x: point.x - metrics.offsetX,
+    y: point.y - metrics.offsetY
+  };
+}
+
+export function inputToViewport(point: Point, metrics: ViewportMetrics): Point {
+  return {
+    x: point.x + metrics.offsetX,
+    y: point.y + metrics.offsetY
+  };
+}
+
+export function viewportToScreenshot(point: Point, screenshot: ScreenshotData): Point {
+  const input = screenshot.viewport ? viewportToInput(point, screenshot.viewport) : point;
+  return {
+    x: input.x * screenshot.scale,
+    y: input.y * screenshot.scale
+  };
+}
+
+export function screenshotToViewport(point: Point, screenshot: ScreenshotData): Point {
+  const input = {
+    x: point.x / screenshot.scale,
+    y: point.y / screenshot.scale
+  };
+  return screenshot.viewport ? inputToViewport(input, screenshot.viewport) : input;
+}
+
+export function getRectCenter(rect: MarkedElement['rect']): Point {
+  return {
+    x: rect.left + rect.width / 2,
+    y: rect.top + rect.height / 2
+  };
+}
@@ -0,0 +1,94 @@
+export interface StagedFile {
+  name: string;
+  type: string;
+  size: number;
+  data?: string; // base64 encoded 내용 (사이드 패널에서 선택한 파일)
+  path?: string; // 로컬 절대 경로 (DOM.setFileInputFiles에 직접 전달)
+  addedAt: number;
+}
+
+const STORAGE_KEY = 'voyager-staged-files';
+
+// 확장 프로그램은 파일 시스템에 직접 접근할 수 없으므로
+// 사용자가 사이드 패널에서 준비한 파일을 chrome.storage.local에 보관한다
+export class FileStore {
+  async list(): Promise<StagedFile[]> {
+    const result = await chrome.storage.local.get(STORAGE_KEY);
+    return (result[STORAGE_KEY] as StagedFile[] | undefined) || [];
+  }
+
+  async getFiles(names?: string[]): Promise<StagedFile[]> {
+    const files = await this.list();
+    if (!names || names.length === 0) {
+      return files;
+    }
+
+    return names.map(name => {
+      const file = files.find(f => f.name === name) ||
+        files.find(f => f.name.toLowerCase() === name.trim().toLowerCase());
+      if (!file) {
+        throw new Error(`Staged file not found: ${name}. Available: ${files.map(f => f.name).join(', ') || 'none'}`);
+      }
+      return file;
+    });
+  }
+
+  async addFile(file: File): Promise<StagedFile> {
+    const buffer = await file.arrayBuffer();
+    const staged: StagedFile = {
+      name: file.name,
+      type: file.type || 'application/octet-stream',
+      size: file.size,
+      data: this.toBase64(new Uint8Array(buffer)),
+      addedAt: Date.now()
+    };
+
+    await this.save(staged);
+    console.log(`[FileStore] Staged file: ${staged.name} (${staged.size} bytes)`);
+    return staged;
+  }
+
+  async addPath(path: string): Promise<StagedFile> {
+    // DOM.setFileInputFiles는 절대 경로만 받으므로 액션 시점이 아니라 추가할 때 알려 준다
+    if (!/^(\/|[a-zA-Z]:[\\/]|\\\\)/.test(path)) {
+      throw new Error(`Not an absolute path: ${path}`);
+    }
+    const name = path.split(/[\\/]/).pop() || path;
+    const staged: StagedFile = {
+      name,
+      type: '',
+      size: 0,
+      path,
+      addedAt: Date.now()
+    };
+
+    await this.save(staged);
+    console.log(`[FileStore] Staged local path: ${path}`);
+    return staged;
+  }
+
+  async remove(name: string): Promise<void> {
+    const files = await this.list();
+    await chrome.storage.local.set({ [STORAGE_KEY]: files.filter(f => f.name !== name) });
+  }
+
+  async clear(): Promise<void> {
+    await chrome.storage.local.remove(STORAGE_KEY);
+  }
+
+  private async save(staged: StagedFile): Promise<void> {
+    const files = (await this.list()).filter(f => f.name !== staged.name);
+    await chrome.storage.local.set({ [STORAGE_KEY]: [...files, staged] });
+  }
+
+  private toBase64(bytes: Uint8Array): string {
+    let binary = '';
+    const chunkSize = 0x8000;
+    for (let i = 0; i < bytes.length; i += chunkSize) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+    }
+    return btoa(binary);
+  }
+}
+
+export const fileStore = new FileStore();
@@ -0,0 +1,50 @@
+import type { DialogPolicy, ScreenshotOptions } from './types';
+
+const DIALOG_POLICY_KEY = 'voyager-dialog-policy';
+const SCREENSHOT_OPTIONS_KEY = 'voyager-screenshot-options';
+const LISTENER_DETECTION_KEY = 'voyager-listener-detection';
+
+// 1568px는 Claude가 이미지를 내부적으로 축소하지 않는 최대 긴 변 길이
+export const DEFAULT_SCREENSHOT_OPTIONS: ScreenshotOptions = {
+  format: 'jpeg',
+  quality: 80,
+  maxLongEdge: 1568,
+  clipToViewport: true
+};
+
+// 사이드 패널과 background가 함께 읽는 설정은 chrome.storage.local에 보관한다
+export class Settings {
+  async getDialogPolicy(): Promise<DialogPolicy> {
+    const result = await chrome.storage.local.get(DIALOG_POLICY_KEY);
+    return (result[DIALOG_POLICY_KEY] as DialogPolicy | undefined) || 'dismiss';
+  }
+
+  async setDialogPolicy(policy: DialogPolicy): Promise<void> {
+    await chrome.storage.local.set({ [DIALOG_POLICY_KEY]: policy });
+    console.log(`[Settings] Dialog policy set to: ${policy}`);
+  }
+
+  // CDP로 이벤트 리스너를 검사해 클릭 가능한 요소를 추가로 찾는다 (요소 수에 비례해 느려지므로 기본값은 꺼짐)
+  async getListenerDetection(): Promise<boolean> {
+    const result = await chrome.storage.local.get(LISTENER_DETECTION_KEY);
+    return result[LISTENER_DETECTION_KEY] === true;
+  }
+
+  async setListenerDetection(enabled: boolean): Promise<void> {
+    await chrome.storage.local.set({ [LISTENER_DETECTION_KEY]: enabled });
+    console.log(`[Settings] Listener detection set to: ${enabled}`);
+  }
+
+  async getScreenshotOptions(): Promise<ScreenshotOptions> {
+    const result = await chrome.storage.local.get(SCREENSHOT_OPTIONS_KEY);
+    return { ...DEFAULT_SCREENSHOT_OPTIONS, ...(result[SCREENSHOT_OPTIONS_KEY] as Partial<ScreenshotOptions> | undefined) };
+  }
+
+  async setScreenshotOptions(options: Partial<ScreenshotOptions>): Promise<void> {
+    const merged = { ...(await this.getScreenshotOptions()), ...options };
+    await chrome.storage.local.set({ [SCREENSHOT_OPTIONS_KEY]: merged });
+    console.log('[Settings] Screenshot options set to:', merged);
+  }
+}
+
+export const settings = new Settings();
@@ -14,24 +14,164 @@ export interface MarkedElement {
   };
   attributes?: Record<string, string>;
   scrollable?: boolean;
+  reason?: InclusionReason; // 마킹 후보에 포함된 이유 (디버깅용)
+  options?: SelectOption[]; // <select> 요소의 선택 가능한 옵션
+  frameId?: number; // 요소가 속한 프레임 (chrome.webNavigation frameId, 0은 최상위)
+  locator?: ElementLocator;
+  state?: ElementState;
+  value?: string; // 입력 요소의 현재 값 (비밀번호는 가림)
+  label?: string; // 연결된 <label> 텍스트
+  visibility?: ViewportVisibility; // 마킹 시점에 화면에 보였는지 (번호 마커는 'in-viewport'인 요소에만 표시)
+}
+
+// 요소 중심점 기준. 'occluded'는 화면 안에 있지만 다른 요소(모달, 고정 헤더 등)에 가려진 경우
+export type ViewportVisibility = 'in-viewport' | 'offscreen-above' | 'offscreen-below' | 'offscreen-left' | 'offscreen-right' | 'occluded';
+
+// 해당하는 상태만 채운다 (네이티브 속성과 ARIA 속성을 함께 반영)
+export interface ElementState {
+  disabled?: boolean;
+  checked?: boolean | 'mixed';
+  selected?: boolean;
+  expanded?: boolean;
+  focused?: boolean;
+  required?: boolean;
+  readonly?: boolean;
+}
+
+export interface MarkingMetrics {
+  durationMs: number;
+  scannedElements: number; // 순회한 DOM 요소 수
+  candidates: number;
+  marked: number;
+  visible: number; // 번호 마커를 표시한 요소 수
+  truncated: boolean; // 시간 예산을 넘어 화면 밖 후보 일부를 건너뜀
+}
+
+// 추적 중인 이전 마킹과 비교한 페이지 변화
+export interface PageChangeDiff {
+  added: number;
+  removed: number;
+  dialogOpened: boolean;
+  dialogClosed: boolean;
+  scrolled: boolean; // 스크롤 또는 창 크기 변경
+}
+
+export type InclusionReason = 'selector' | 'event-listener' | 'cursor-pointer' | 'scrollable';
+
+// DOM이 바뀐 뒤에도 같은 요소를 다시 찾기 위한 정보
+export interface ElementLocator {
+  css: string; // shadow root 경계는 ' >>> '로 구분
+  xpath: string; // 요소가 속한 document 또는 shadow root 기준
+  fingerprint: ElementFingerprint;
+}
+
+export interface ElementFingerprint {
+  tagName: string;
+  role?: string;
+  text: string;
+}
+
+export type LocatorStatus = 'ok' | 'changed' | 'missing';
+
+export interface LocatorCheck {
+  status: LocatorStatus;
+  rect?: MarkedElement['rect']; // 'ok'일 때 현재 위치
+  visibility?: ViewportVisibility;
+  reason?: string;
+}
+
+// 본문 추출 요청. chunk를 주면 그 구간부터, query를 주면 관련 구간을, 둘 다 없으면 앞부분을 반환한다
+export interface ContentExtractOptions {
+  query?: string;
+  chunk?: number;
+  maxChunks?: number;
+}
+
+export interface ContentChunk {
+  index: number; // 1부터 시작
+  heading?: string; // 구간이 속한 가장 가까운 제목
+  text: string; // Markdown
+  score?: number; // 검색 시 관련도
+}
+
+export interface ExtractedContent {
+  title: string;
+  url: string;
+  totalChunks: number;
+  totalLength: number;
+  outline: string[]; // 구간별 제목 (outline[i]는 i+1번 구간)
+  chunks: ContentChunk[];
+  query?: string;
+}
+
+// query가 "/pattern/flags" 형식이면 정규식, 아니면 대소문자를 구분하지 않는 문자열 검색
+export interface FindOptions {
+  query: string;
+  matchIndex?: number; // 스크롤해 강조할 일치 항목 (1부터)
+  maxSnippets?: number;
+  highlightDuration?: number; // ms
+}
+
+export interface FindSnippet {
+  index: number; // 1부터
+  text: string; // 일치한 부분은 [ ]로 감싼다
+}
+
+export interface FindResult {
+  query: string;
+  total: number;
+  matchIndex: number; // 스크롤한 일치 항목, 없으면 0
+  snippets: FindSnippet[];
+}
+
+export interface SelectOption {
+  value: string;
+  label: string;
+  selected: boolean;
+  disabled?: boolean;
+}
+
+export interface AXTreeNode {
+  role: string;
+  name?: string;
+  value?: string;
+  states?: string[]; // 'checked', 'expanded', 'collapsed', 'disabled', 'focused' 등
+  elementId?: number; // 마킹된 요소와 연결된 경우 그 id
+  children?: AXTreeNode[];
 }
 
 export interface Message {
   role: 'user' | 'assistant';
   content: string;
   timestamp?: number;
+  records?: ExtractedRecord[]; // 구조화 추출 결과 (표로 표시)
+  recordFields?: string[]; // 표의 열 순서
 }
 
+// 구조화 추출로 모은 레코드 한 건 (필드 이름 → 값)
+export type ExtractedRecord = Record<string, string | number | boolean | null>;
+
 export interface AIAction {
-  type: 'click' | 'type' | 'scroll' | 'wait' | 'done' | 'navigate';
+  type: 'click' | 'double_click' | 'right_click' | 'hover' | 'drag' | 'type' | 'press' | 'select_option' | 'upload' | 'handle_dialog' | 'scroll' | 'scroll_to' | 'extract_text' | 'find' | 'wait' | 'done' | 'navigate' | 'back' | 'forward' | 'reload';
   elementId?: number;
   text?: string;
+  submit?: boolean; // type: 입력 후 Enter로 제출
+  key?: string; // press: 'Enter', 'Control+Enter' 같은 키 또는 조합
+  option?: string; // select_option: 선택할 옵션의 label 또는 value
+  files?: string[]; // upload: 첨부할 staged 파일 이름 (생략 시 전체)
+  accept?: boolean; // handle_dialog: 수락 여부 (prompt 입력값은 text)
   direction?: 'up' | 'down';
   duration?: number;
   x?: number;
   y?: number;
+  targetElementId?: number; // drag: 놓을 위치의 요소
+  toX?: number; // drag: 놓을 위치 좌표
+  toY?: number;
   url?: string;
   amount?: number;
+  query?: string; // extract_text, find: 찾을 내용
+  chunk?: number; // extract_text: 가져올 구간 번호
+  match?: number; // find: 이동할 일치 항목 번호
 }
 
 export interface AIResponse {
@@ -45,18 +185,82 @@ export interface ActionResult {
   message: string;
   error?: string;
   reasoning?: string;
+  action?: AIAction; // 재실행할 수 있도록 실행한 액션과 대상 locator를 기록
+  locators?: ElementLocator[];
+}
+
+export type DialogPolicy = 'accept' | 'dismiss' | 'ask' | 'model';
+
+export interface JavaScriptDialog {
+  type: 'alert' | 'confirm' | 'prompt' | 'beforeunload';
+  message: string;
+  url: string;
+  defaultPrompt?: string;
+  openedAt: number;
+}
+
+export interface DialogEvent {
+  dialog: JavaScriptDialog;
+  outcome: 'accepted' | 'dismissed' | 'pending';
+  handledBy: DialogPolicy;
+  promptText?: string;
+}
+
+export interface DialogDecision {
+  accept: boolean;
+  promptText?: string;
+}
+
+export type PageLoadCondition = 'load' | 'DOMContentLoaded' | 'networkidle';
+
+export interface PageLoadWaitOptions {
+  until: PageLoadCondition;
+  idleTime?: number; // networkidle: 진행 중인 요청 없이 유지되어야 하는 시간 (ms)
+  maxInflight?: number; // networkidle: 롱 폴링, 스트리밍처럼 오래 열려 있는 요청을 이 수까지 유휴로 본다
+  navigationOnly?: boolean; // 대기 시작 직후 내비게이션이 시작되지 않았고 페이지가 로드된 상태면 바로 끝낸다
+  timeout?: number;
+}
+
+export interface PageLoadWaitResult {
+  satisfied: boolean;
+  elapsed: number;
 }
 
 export interface ExtensionMessage {
-  type: 'CAPTURE_SCREENSHOT' | 'MARK_ELEMENTS' | 'CLEAR_MARKERS' | 'EXECUTE_ACTION' | 'GET_ELEMENTS' | 'NAVIGATE';
+  type: 'CAPTURE_SCREENSHOT' | 'MARK_ELEMENTS' | 'CLEAR_MARKERS' | 'EXECUTE_ACTION' | 'GET_ELEMENTS' | 'NAVIGATE' | 'WAIT_FOR_PAGE' | 'SELECT_OPTION' | 'GET_DIALOG_EVENTS' | 'DIALOG_OPENED' | 'DIALOG_CLOSED' | 'GET_AX_TREE' | 'GET_PAGE_TEXT' | 'EXTRACT_CONTENT' | 'FIND_IN_PAGE' | 'GET_VIEWPORT_METRICS' | 'SHOW_CROSSHAIR' | 'CHECK_LOCATOR' | 'SCROLL_TO_ELEMENT' | 'START_TRACKING' | 'STOP_TRACKING';
   action?: AIAction;
+  dialog?: JavaScriptDialog;
+  wait?: PageLoadWaitOptions;
   elements?: MarkedElement[];
   data?: any;
   url?: string;
 }
 
+export type ScreenshotFormat = 'png' | 'jpeg' | 'webp';
+
+export interface ScreenshotOptions {
+  format: ScreenshotFormat;
+  quality: number; // jpeg/webp 전용 (0-100)
+  maxLongEdge: number; // 0이면 원본 크기 유지
+  clipToViewport: boolean;
+}
+
+// 좌표 변환에 필요한 뷰포트 정보 (길이는 CSS 픽셀)
+export interface ViewportMetrics {
+  devicePixelRatio: number; // 브라우저 줌이 반영된 값
+  zoom: number; // 브라우저 줌 배율
+  pinchScale: number; // visualViewport.scale
+  offsetX: number; // layout viewport 기준 visual viewport 위치
+  offsetY: number;
+  width: number; // visual viewport 크기
+  height: number;
+}
+
 export interface ScreenshotData {
   data: string; // base64 encoded image
   width?: number;
   height?: number;
+  format: ScreenshotFormat;
+  scale: number; // 스크린샷 픽셀 / CSS 픽셀
+  viewport?: ViewportMetrics; // 캡처 시점의 뷰포트
 }
\ No newline at end of file
@@ -1,10 +1,18 @@
 import { useState, useRef, useEffect } from 'react'
-import type { Message } from '../shared/types'
-import { AgentController } from './agent-controller'
+import type { DialogDecision, DialogPolicy, JavaScriptDialog, Message, ScreenshotOptions } from '../shared/types'
+import { AgentController, type AgentResult, type ObservationMode } from './agent-controller'
+import type { PageRepresentation } from './claude-api'
+import { parseExtractionSchema, type ExtractionSchema } from './extraction-schema'
+import { resultExporter } from './result-exporter'
+import { fileStore, type StagedFile } from '../shared/file-store'
+import { DEFAULT_SCREENSHOT_OPTIONS, settings } from '../shared/settings'
 import './App.css'
 
+// 작업 결과 메시지는 내보내기를 위해 실행 결과 전체를 함께 보관한다
+type ChatMessage = Message & { result?: AgentResult }
+
 export default function App() {
-  const [messages, setMessages] = useState<Message[]>([
+  const [messages, setMessages] = useState<ChatMessage[]>([
     { 
       role: 'assistant', 
       content: '안녕하세요! Web Voyager입니다. 웹 페이지에서 무엇을 도와드릴까요? 예: "구글에서 ChatGPT 검색해줘", "이 페이지에서 로그인 버튼 클릭해줘"',
@@ -18,6 +26,27 @@ export default function App() {
   const [apiKey, setApiKey] = useState(() => {
     return localStorage.getItem('claude-api-key') || '';
   })
+  const [showFilePanel, setShowFilePanel] = useState(false)
+  const [stagedFiles, setStagedFiles] = useState<StagedFile[]>([])
+  const [localPath, setLocalPath] = useState('')
+  const [fileError, setFileError] = useState<string | null>(null)
+  const [dialogPolicy, setDialogPolicy] = useState<DialogPolicy>('dismiss')
+  const [screenshotOptions, setScreenshotOptions] = useState<ScreenshotOptions>(DEFAULT_SCREENSHOT_OPTIONS)
+  const [listenerDetection, setListenerDetection] = useState(false)
+  const [dialogRequest, setDialogRequest] = useState<{
+    dialog: JavaScriptDialog
+    respond: (decision: DialogDecision) => void
+  } | null>(null)
+  const [dialogPromptText, setDialogPromptText] = useState('')
+  const [observationMode, setObservationMode] = useState<ObservationMode>('screenshot+elements')
+  const [pageRepresentation, setPageRepresentation] = useState<PageRepresentation>(() => {
+    return (localStorage.getItem('voyager-page-representation') as PageRepresentation) || 'elements';
+  })
+  const [copiedKey, setCopiedKey] = useState<string | null>(null)
+  const [extractionEnabled, setExtractionEnabled] = useState(false)
+  const [extractionSchema, setExtractionSchema] = useState(() => {
+    return localStorage.getItem('voyager-extraction-schema') || ''
+  })
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const agentController = useRef(new AgentController())
 
@@ -36,6 +65,125 @@ export default function App() {
     }
   }, [])
 
+  useEffect(() => {
+    agentController.current.setPageRepresentation(pageRepresentation)
+  }, [pageRepresentation])
+
+  useEffect(() => {
+    fileStore.list().then(setStagedFiles).catch(console.error)
+    settings.getDialogPolicy().then(setDialogPolicy).catch(console.error)
+    settings.getScreenshotOptions().then(setScreenshotOptions).catch(console.error)
+    settings.getListenerDetection().then(setListenerDetection).catch(console.error)
+  }, [])
+
+  // 'ask' 정책: background가 페이지 대화상자 처리 방법을 물어본다
+  useEffect(() => {
+    const listener = (message: { type: string; dialog?: JavaScriptDialog }, _: chrome.runtime.MessageSender, sendResponse: (response: DialogDecision) => void) => {
+      // 답하기 전에 시간 초과 등으로 대화상자가 닫히면 질문을 지운다
+      if (message.type === 'DIALOG_CLOSED' && message.dialog) {
+        const closedAt = message.dialog.openedAt
+        setDialogRequest(request => request?.dialog.openedAt === closedAt ? null : request)
+        return
+      }
+      if (message.type !== 'DIALOG_OPENED' || !message.dialog) return
+      
+      setDialogPromptText(message.dialog.defaultPrompt || '')
+      setDialogRequest({
+        dialog: message.dialog,
+        respond: (decision) => {
+          sendResponse(decision)
+          setDialogRequest(null)
+        }
+      })
+      return true
+    }
+    
+    chrome.runtime.onMessage.addListener(listener)
+    return () => chrome.runtime.onMessage.removeListener(listener)
+  }, [])
+
+  const handlePageRepresentationChange = (representation: PageRepresentation) => {
+    localStorage.setItem('voyager-page-representation', representation)
+    setPageRepresentation(representation)
+  }
+
+  const handleExtractionSchemaChange = (schema: string) => {
+    localStorage.setItem('voyager-extraction-schema', schema)
+    setExtractionSchema(schema)
+  }
+
+  const getRecordFields = (msg: ChatMessage) => msg.recordFields || Object.keys(msg.records?.[0] || {})
+
+  const handleExport = async (key: string, task: () => Promise<void>) => {
+    try {
+      await task()
+      if (key.startsWith('copy')) {
+        setCopiedKey(key)
+        setTimeout(() => setCopiedKey(current => current === key ? null : current), 1500)
+      }
+    } catch (error) {
+      console.error('[App] Export failed:', error)
+      setMessages(prev => [...prev, {
+        role: 'assistant',
+        content: `❌ 내보내기 실패: ${error instanceof Error ? error.message : '알 수 없는 오류'}`,
+        timestamp: Date.now()
+      }])
+    }
+  }
+
+  const handleDialogPolicyChange = async (policy: DialogPolicy) => {
+    setDialogPolicy(policy)
+    await settings.setDialogPolicy(policy)
+  }
+
+  const handleListenerDetectionChange = async (enabled: boolean) => {
+    setListenerDetection(enabled)
+    await settings.setListenerDetection(enabled)
+  }
+
+  const handleScreenshotOptionsChange = async (options: Partial<ScreenshotOptions>) => {
+    setScreenshotOptions(prev => ({ ...prev, ...options }))
+    await settings.setScreenshotOptions(options)
+  }
+
+  const handleFilesSelected = async (files: FileList | null) => {
+    if (!files) return
+    try {
+      for (const file of Array.from(files)) {
+        await fileStore.addFile(file)
+      }
+      setStagedFiles(await fileStore.list())
+      setFileError(null)
+    } catch (error) {
+      console.error('[App] Failed to stage files:', error)
+      setFileError(`파일을 추가하지 못했습니다: ${error instanceof Error ? error.message : '알 수 없는 오류'}`)
+    }
+  }
+
+  const handleLocalPathSubmit = async () => {
+    if (!localPath.trim()) return
+    try {
+      await fileStore.addPath(localPath.trim())
+      setLocalPath('')
+      setStagedFiles(await fileStore.list())
+      setFileError(null)
+    } catch (error) {
+      console.error('[App] Failed to stage local path:', error)
+      setFileError(`경로를 추가하지 못했습니다: ${error instanceof Error ? error.message : '알 수 없는 오류'}`)
+    }
+  }
+
+  const handleFileRemove = async (name: string) => {
+    try {
+      await fileStore.remove(name)
+      setStagedFiles(await fileStore.list())
+      setFileError(null)
+    } catch (error) {
+      console.error('[App] Failed to remove staged file:', error)
+      setFileError(`파일을 삭제하지 못했습니다: ${error instanceof Error ? error.message : '알 수 없는 오류'}`)
+    }
+  }
+
   const handleStop = () => {
     console.log('[App] Stopping agent execution');
     agentController.current.stop();
@@ -45,6 +193,20 @@ export default function App() {
   const handleSubmit = async () => {
     if (!input.trim() || isProcessing) return
 
+    let extraction: ExtractionSchema | undefined
+    if (extractionEnabled) {
+      try {
+        extraction = parseExtractionSchema(extractionSchema)
+      } catch (error) {
+        setMessages(prev => [...prev, {
+          role: 'assistant',
+          content: `❌ 추출 스키마를 확인해 주세요: ${error instanceof Error ? error.message : '알 수 없는 오류'}`,
+          timestamp: Date.now()
+        }])
+        return
+      }
+    }
+
     const userMessage: Message = { 
       role: 'user', 
       content: input,
@@ -61,7 +223,7 @@ export default function App() {
         setCurrentAction(action)
       }
 
-      const result = await agentController.current.runAgent(input, onProgress)
+      const result = await agentController.current.runAgent(input, onProgress, { observationMode, extraction })
 
       let content = '';
       if (result.success) {
@@ -74,11 +236,17 @@ export default function App() {
       } else {
         content = `❌ 작업 실패: ${result.error}`;
       }
+      if (result.records) {
+        content += `\n\n📦 수집한 레코드: ${result.records.length}개`;
+      }
       
-      const assistantMessage: Message = {
+      const assistantMessage: ChatMessage = {
         role: 'assistant',
         content,
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        result,
+        records: result.records && result.records.length > 0 ? result.records : undefined,
+        recordFields: result.recordFields
       }
 
       setMessages(prev => [...prev, assistantMessage])
@@ -148,13 +316,22 @@ export default function App() {
             <h1>🚀 Web Voyager</h1>
             <p>AI 브라우저 자동화 어시스턴트</p>
           </div>
-          <button 
-            onClick={() => setShowApiKeyInput(!showApiKeyInput)}
-            className="settings-button"
-            title="API 키 설정"
-          >
-            ⚙️
-          </button>
+          <div className="header-buttons">
+            <button 
+              onClick={() => setShowFilePanel(!showFilePanel)}
+              className="settings-button"
+              title="업로드 파일 관리"
+            >
+              📎{stagedFiles.length > 0 ? ` ${stagedFiles.length}` : ''}
+            </button>
+            <button 
+              onClick={() => setShowApiKeyInput(!showApiKeyInput)}
+              className="settings-button"
+              title="API 키 설정"
+            >
+              ⚙️
+            </button>
+          </div>
         </div>
         
         {showApiKeyInput && (
@@ -179,6 +356,125 @@ export default function App() {
             </button>
           </div>
         )}
+
+        {showApiKeyInput && (
+          <div className="settings-row">
+            <label htmlFor="dialog-policy">페이지 대화상자 (alert/confirm)</label>
+            <select
+              id="dialog-policy"
+              value={dialogPolicy}
+              onChange={(e) => handleDialogPolicyChange(e.target.value as DialogPolicy)}
+            >
+              <option value="dismiss">자동으로 닫기</option>
+              <option value="accept">자동으로 수락</option>
+              <option value="ask">나에게 묻기</option>
+              <option value="model">AI가 결정</option>
+            </select>
+          </div>
+        )}
+
+        {showApiKeyInput && (
+          <div className="settings-row">
+            <label htmlFor="page-representation">페이지 표현 방식</label>
+            <select
+              id="page-representation"
+              value={pageRepresentation}
+              onChange={(e) => handlePageRepresentationChange(e.target.value as PageRepresentation)}
+            >
+              <option value="elements">요소 목록</option>
+              <option value="accessibility">접근성 트리</option>
+              <option value="both">요소 목록 + 접근성 트리</option>
+            </select>
+          </div>
+        )}
+
+        {showApiKeyInput && (
+          <div className="settings-row">
+            <label htmlFor="screenshot-format">스크린샷 형식</label>
+            <select
+              id="screenshot-format"
+              value={screenshotOptions.format}
+              onChange={(e) => handleScreenshotOptionsChange({ format: e.target.value as ScreenshotOptions['format'] })}
+            >
+              <option value="jpeg">JPEG</option>
+              <option value="webp">WebP</option>
+              <option value="png">PNG (무손실)</option>
+            </select>
+            <select
+              id="screenshot-size"
+              value={screenshotOptions.maxLongEdge}
+              onChange={(e) => handleScreenshotOptionsChange({ maxLongEdge: Number(e.target.value) })}
+            >
+              <option value={1024}>최대 1024px</option>
+              <option value={1280}>최대 1280px</option>
+              <option value={1568}>최대 1568px</option>
+              <option value={0}>원본 크기</option>
+            </select>
+            <label className="settings-checkbox">
+              <input
+                type="checkbox"
+                checked={screenshotOptions.clipToViewport}
+                onChange={(e) => handleScreenshotOptionsChange({ clipToViewport: e.target.checked })}
+              />
+              뷰포트만
+            </label>
+          </div>
+        )}
+
+        {showApiKeyInput && (
+          <div className="settings-row">
+            <label htmlFor="listener-detection">이벤트 리스너로 클릭 요소 찾기 (느림)</label>
+            <input
+              id="listener-detection"
+              type="checkbox"
+              checked={listenerDetection}
+              onChange={(e) => handleListenerDetectionChange(e.target.checked)}
+            />
+          </div>
+        )}
+
+        {showFilePanel && (
+          <div className="file-panel">
+            <div className="file-panel-row">
+              <input
+                type="file"
+                multiple
+                onChange={(e) => {
+                  handleFilesSelected(e.target.files)
+                  e.target.value = ''
+                }}
+              />
+            </div>
+            <div className="file-panel-row">
+              <input
+                type="text"
+                value={localPath}
+                onChange={(e) => setLocalPath(e.target.value)}
+                placeholder="또는 로컬 파일 절대 경로 (예: /Users/me/resume.pdf)"
+                onKeyPress={(e) => e.key === 'Enter' && handleLocalPathSubmit()}
+              />
+              <button onClick={handleLocalPathSubmit} disabled={!localPath.trim()}>
+                추가
+              </button>
+            </div>
+            {fileError && <div className="file-panel-error">❌ {fileError}</div>}
+            {stagedFiles.length === 0 ? (
+              <div className="file-panel-empty">준비된 파일이 없습니다.</div>
+            ) : (
+              <ul className="file-list">
+                {stagedFiles.map(file => (
+                  <li key={file.name}>
+                    <span title={file.path || file.name}>
+                      {file.path ? '📁' : '📄'} {file.name}
+                      {!file.path && ` (${Math.ceil(file.size / 1024)}KB)`}
+                    </span>
+                    <button onClick={() => handleFileRemove(file.name)} title="삭제">✕</button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
       </div>
 
       <div className="messages-container">
@@ -188,6 +484,50 @@ export default function App() {
               {msg.content.split('\n').map((line, j) => (
                 <div key={j}>{line}</div>
               ))}
+              {msg.records && (
+                <div className="records-table-wrapper">
+                  <table className="records-table">
+                    <thead>
+                      <tr>
+                        <th>#</th>
+                        {getRecordFields(msg).map(field => (
+                          <th key={field}>{field}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {msg.records.map((record, j) => (
+                        <tr key={j}>
+                          <td>{j + 1}</td>
+                          {getRecordFields(msg).map(field => (
+                            <td key={field}>{record[field] === null ? '' : String(record[field])}</td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+              {msg.result && (
+                <div className="export-buttons">
+                  {msg.records && (
+                    <>
+                      <span>레코드</span>
+                      <button onClick={() => handleExport(`csv-${i}`, () => resultExporter.exportRecords(msg.records!, getRecordFields(msg), 'csv'))}>CSV</button>
+                      <button onClick={() => handleExport(`json-${i}`, () => resultExporter.exportRecords(msg.records!, getRecordFields(msg), 'json'))}>JSON</button>
+                      <button onClick={() => handleExport(`copy-records-${i}`, () => resultExporter.copyRecords(msg.records!, getRecordFields(msg)))}>
+                        {copiedKey === `copy-records-${i}` ? '✅ 복사됨' : '📋 복사'}
+                      </button>
+                    </>
+                  )}
+                  <span>실행 기록</span>
+                  <button onClick={() => handleExport(`md-${i}`, () => resultExporter.exportRun(msg.result!, 'markdown'))}>Markdown</button>
+                  <button onClick={() => handleExport(`run-json-${i}`, () => resultExporter.exportRun(msg.result!, 'json'))}>JSON</button>
+                  <button onClick={() => handleExport(`copy-run-${i}`, () => resultExporter.copyRun(msg.result!))}>
+                    {copiedKey === `copy-run-${i}` ? '✅ 복사됨' : '📋 복사'}
+                  </button>
+                </div>
+              )}
             </div>
             {msg.timestamp && (
               <div className="message-time">{formatTime(msg.timestamp)}</div>
@@ -195,6 +535,30 @@ export default function App() {
           </div>
         ))}
         
+        {dialogRequest && (
+          <div className="message assistant dialog-request">
+            <div className="message-content">
+              <div>💬 페이지에서 {dialogRequest.dialog.type} 대화상자를 열었습니다:</div>
+              <div className="dialog-message">"{dialogRequest.dialog.message}"</div>
+              {dialogRequest.dialog.type === 'prompt' && (
+                <input
+                  type="text"
+                  value={dialogPromptText}
+                  onChange={(e) => setDialogPromptText(e.target.value)}
+                />
+              )}
+              <div className="dialog-buttons">
+                <button onClick={() => dialogRequest.respond({ accept: true, promptText: dialogPromptText })}>
+                  수락
+                </button>
+                <button onClick={() => dialogRequest.respond({ accept: false })}>
+                  닫기
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+        
         {isProcessing && currentAction && (
           <div className="message assistant processing">
             <div className="message-content">
@@ -226,6 +590,38 @@ export default function App() {
       </div>
 
       <div className="input-container">
+        <div className="task-options">
+          <label htmlFor="observation-mode">관찰 모드</label>
+          <select
+            id="observation-mode"
+            value={observationMode}
+            onChange={(e) => setObservationMode(e.target.value as ObservationMode)}
+            disabled={isProcessing}
+          >
+            <option value="screenshot+elements">스크린샷 + 요소</option>
+            <option value="elements-only">요소 + 텍스트만 (빠름)</option>
+            <option value="auto">자동 (필요할 때만 스크린샷)</option>
+          </select>
+          <label className="settings-checkbox">
+            <input
+              type="checkbox"
+              checked={extractionEnabled}
+              onChange={(e) => setExtractionEnabled(e.target.checked)}
+              disabled={isProcessing}
+            />
+            데이터 추출
+          </label>
+        </div>
+        {extractionEnabled && (
+          <textarea
+            className="extraction-schema"
+            value={extractionSchema}
+            onChange={(e) => handleExtractionSchemaChange(e.target.value)}
+            placeholder={'추출할 필드 (예: name, price:number, url) 또는 JSON Schema'}
+            disabled={isProcessing}
+            rows={2}
+          />
+        )}
         <div className="input-wrapper">
           <textarea
             value={input}
@@ -1,11 +1,30 @@
-import type { MarkedElement, ScreenshotData, AIAction, ActionResult } from '../shared/types';
-import { ClaudeAPIClient, type Prediction } from './claude-api';
+import type { ExtractedContent, ExtractedRecord, FindResult, MarkedElement, MarkingMetrics, PageChangeDiff, ScreenshotData, AIAction, ActionResult, ElementLocator, PageLoadWaitOptions, DialogEvent, JavaScriptDialog, AXTreeNode } from '../shared/types';
+import { ClaudeAPIClient, type PageRepresentation, type Prediction } from './claude-api';
+import { screenshotToViewport } from '../shared/coordinates';
+import { fileStore } from '../shared/file-store';
+import { validateRecords, type ExtractionSchema } from './extraction-schema';
 
 export interface AgentResult {
+  query: string;
   success: boolean;
   summary: string;
+  answer?: string; // ANSWER로 끝났을 때 모델의 최종 답변
   error?: string;
   steps: ActionResult[];
+  records?: ExtractedRecord[]; // 구조화 추출을 켠 경우 모은 레코드
+  recordFields?: string[];
+  startedAt: number;
+  finishedAt: number;
+}
+
+// screenshot+elements: 매 단계 스크린샷과 요소 목록
+// elements-only: 요소 목록과 페이지 텍스트만 (스크린샷 없음)
+// auto: 기본은 텍스트만, 모델이 요청하거나 텍스트만으로 판단하기 어려울 때 스크린샷 포함
+export type ObservationMode = 'screenshot+elements' | 'elements-only' | 'auto';
+
+export interface TaskOptions {
+  observationMode?: ObservationMode;
+  extraction?: ExtractionSchema; // 설정하면 모델이 이 스키마의 레코드를 단계마다 모은다
 }
 
 export class AgentController {
@@ -15,6 +34,10 @@ export class AgentController {
   private scratchpad: string = '';
   private isRunning = false;
   private shouldStop = false;
+  private pageRepresentation: PageRepresentation = 'elements';
+  private extractedContent: ExtractedContent | null = null;
+  private records: ExtractedRecord[] = [];
+  private recordKeys = new Set<string>();
 
   constructor() {
     this.claudeClient = new ClaudeAPIClient();
@@ -22,43 +45,99 @@ export class AgentController {
 
   async runAgent(
     initialQuery: string, 
-    onProgress?: (action: string) => void
+    onProgress?: (action: string) => void,
+    options: TaskOptions = {}
   ): Promise<AgentResult> {
-    console.log('[AgentController] Starting agent with query:', initialQuery);
+    const observationMode = options.observationMode || 'screenshot+elements';
+    console.log('[AgentController] Starting agent with query:', initialQuery, `(observation: ${observationMode})`);
     
     const steps: ActionResult[] = [];
+    const startedAt = Date.now();
+    let answer: string | undefined;
     this.currentStep = 0;
     this.isRunning = true;
     this.shouldStop = false;
+    this.extractedContent = null;
+    this.records = [];
+    this.recordKeys.clear();
     let continueExecution = true;
+    let lastScreenshot: ScreenshotData | null = null;
+    let screenshotRequested = false;
     
-    onProgress?.('스크린샷을 캡처하고 있습니다...');
+    onProgress?.(observationMode === 'screenshot+elements' ? '스크린샷을 캡처하고 있습니다...' : '페이지를 분석하고 있습니다...');
 
     try {
+      await this.setTracking(true);
       while (continueExecution && this.currentStep < this.maxSteps && !this.shouldStop) {
         this.currentStep++;
         
         console.log(`[AgentController] Step ${this.currentStep}/${this.maxSteps}`);
         
-        onProgress?.(`[${this.currentStep}/${this.maxSteps}] 현재 화면을 캡처하고 있습니다...`);
-        const screenshot = await this.captureScreen();
+        const pendingDialog = await this.checkDialogs();
+        let screenshot: ScreenshotData | null = lastScreenshot;
+        let elements: MarkedElement[] = [];
+        let pageText: string | undefined;
         
-        onProgress?.(`[${this.currentStep}/${this.maxSteps}] 클릭 가능한 요소를 찾고 있습니다...`);
-        const elements = await this.markElements();
+        if (pendingDialog) {
+          // 대화상자가 열린 동안에는 스크린샷과 마킹이 불가능하므로 직전 화면으로 판단
+          onProgress?.(`[${this.currentStep}/${this.maxSteps}] 페이지 대화상자에 대한 응답을 결정하고 있습니다...`);
+        } else {
+          // 두 모드 모두 마커를 그리기 전에 캡처해 같은 화면 상태에서 같은 이미지를 보낸다
+          if (observationMode === 'screenshot+elements' || (observationMode === 'auto' && screenshotRequested)) {
+            onProgress?.(`[${this.currentStep}/${this.maxSteps}] 현재 화면을 캡처하고 있습니다...`);
+            screenshot = await this.captureScreen();
+            lastScreenshot = screenshot;
+          } else {
+            screenshot = null;
+          }
+          
+          onProgress?.(`[${this.currentStep}/${this.maxSteps}] 클릭 가능한 요소를 찾고 있습니다...`);
+          elements = await this.markElements();
+          
+          if (elements.length === 0) {
+            console.warn('[AgentController] No clickable elements found');
+            steps.push({
+              success: false,
+              message: '클릭 가능한 요소를 찾을 수 없습니다.',
+              error: 'No clickable elements found'
+            });
+            break;
+          }
+          
+          if (observationMode !== 'screenshot+elements') {
+            pageText = await this.getPageText();
+            
+            // 텍스트만으로 모호한지는 마킹 후에 알 수 있으므로, 마커를 숨기고 캡처해 마킹 전과 같은 화면을 얻는다
+            if (observationMode === 'auto' && !screenshotRequested && this.isTextViewAmbiguous(elements, pageText)) {
+              onProgress?.(`[${this.currentStep}/${this.maxSteps}] 현재 화면을 캡처하고 있습니다...`);
+              await this.clearMarkers();
+              screenshot = await this.captureScreen();
+              lastScreenshot = screenshot;
+            }
+            screenshotRequested = false;
+          }
+        }
         
-        if (elements.length === 0) {
-          console.warn('[AgentController] No clickable elements found');
-          steps.push({
-            success: false,
-            message: '클릭 가능한 요소를 찾을 수 없습니다.',
-            error: 'No clickable elements found'
-          });
-          break;
+        let axTree: AXTreeNode[] | undefined;
+        if (!pendingDialog && this.pageRepresentation !== 'elements') {
+          onProgress?.(`[${this.currentStep}/${this.maxSteps}] 접근성 트리를 가져오고 있습니다...`);
+          axTree = await this.getAccessibilityTree();
         }
         
         onProgress?.(`[${this.currentStep}/${this.maxSteps}] AI가 다음 작업을 분석하고 있습니다...`);
-        const prediction = await this.claudeClient.analyzePage(screenshot, elements, initialQuery, this.scratchpad);
-        const aiAction = this.convertPredictionToAction(prediction);
+        const stagedFiles = (await fileStore.list()).map(file => file.name);
+        const prediction = await this.claudeClient.analyzePage(screenshot, elements, initialQuery, this.scratchpad, {
+          stagedFiles,
+          pendingDialog: pendingDialog || undefined,
+          pageRepresentation: this.pageRepresentation,
+          axTree,
+          pageText,
+          extractedContent: this.extractedContent || undefined,
+          extraction: options.extraction,
+          collectedRecords: this.records.length,
+          canRequestScreenshot: observationMode === 'auto' && !screenshot
+        });
+        const aiAction = this.toViewportCoordinates(this.convertPredictionToAction(prediction), screenshot);
         
         console.log(`[AgentController] Step ${this.currentStep} AI Reasoning:`, prediction.reasoning);
         console.log(`[AgentController] Step ${this.currentStep} AI Action:`, prediction.action);
@@ -66,7 +145,12 @@ export class AgentController {
           console.log(`[AgentController] Step ${this.currentStep} AI Args:`, prediction.args);
         }
         
+        const collected = options.extraction && prediction.records?.length ?
+          this.collectRecords(options.extraction, prediction.records) :
+          null;
+        
         if (prediction.action === 'ANSWER') {
+          answer = prediction.reasoning;
           steps.push({
             success: true,
             message: `🤖 AI 분석 결과: ${prediction.reasoning}`,
@@ -77,8 +161,42 @@ export class AgentController {
           break;
         }
         
+        if (prediction.action === 'Collect') {
+          const collectResult: ActionResult = {
+            success: true,
+            message: collected || '새로 수집한 레코드가 없습니다.',
+            reasoning: prediction.reasoning
+          };
+          steps.push(collectResult);
+          this.updateScratchpad(collectResult);
+          await this.clearMarkers();
+          continue;
+        }
+        
+        if (prediction.action === 'Screenshot') {
+          screenshotRequested = true;
+          this.addScratchpadNote('AI가 다음 단계에서 스크린샷을 요청했습니다.');
+          await this.clearMarkers();
+          continue;
+        }
+        
+        // 좌표는 스크린샷 픽셀 기준이므로 스크린샷 없이 받은 좌표는 ClickAt처럼 쓸 수 없다
+        if (!screenshot && this.hasCoordinates(aiAction)) {
+          const coordinateResult: ActionResult = {
+            success: false,
+            message: '스크린샷 없이 좌표로 지정한 액션은 실행할 수 없습니다.',
+            error: 'Coordinates require a screenshot. Use element numbers, or request a Screenshot first.',
+            reasoning: prediction.reasoning
+          };
+          steps.push(coordinateResult);
+          this.updateScratchpad(coordinateResult);
+          screenshotRequested = observationMode === 'auto';
+          await this.clearMarkers();
+          continue;
+        }
+        
         onProgress?.(`[${this.currentStep}/${this.maxSteps}] ${this.getActionDescription(aiAction)}를 실행하고 있습니다...`);
-        const result = await this.executeAction(aiAction, elements);
+        const result = await this.runAction(aiAction, elements);
         
         result.reasoning = prediction.reasoning;
         steps.push(result);
@@ -87,6 +205,9 @@ export class AgentController {
         console.log(`[AgentController] Step ${this.currentStep} result reasoning:`, result.reasoning);
         
         this.updateScratchpad(result);
+        if (collected) {
+          this.addScratchpadNote(collected);
+        }
         
         if (aiAction.type === 'done') {
           continueExecution = false;
@@ -94,8 +215,14 @@ export class AgentController {
         } else {
           await this.clearMarkers();
           
-          onProgress?.(`[${this.currentStep}/${this.maxSteps}] 페이지 로딩을 대기하고 있습니다...`);
-          await this.wait(2000);
+          if (this.mayNavigate(aiAction)) {
+            onProgress?.(`[${this.currentStep}/${this.maxSteps}] 페이지 로딩을 대기하고 있습니다...`);
+            // 내비게이션도 요청도 없던 클릭은 바로 진행하고, 롱 폴링이나 스트리밍처럼 오래 열린 요청은 2개까지 유휴로 본다
+            await this.waitForPageLoad({ until: 'networkidle', idleTime: 500, maxInflight: 2, navigationOnly: true, timeout: 10000 });
+          } else {
+            // DOM 업데이트와 애니메이션이 반영될 짧은 시간만 대기
+            await this.wait(300);
+          }
         }
       }
       
@@ -104,10 +231,14 @@ export class AgentController {
       if (this.shouldStop) {
         console.log('[AgentController] Agent execution stopped by user');
         return {
+          query: initialQuery,
           success: false,
           summary: `사용자가 작업을 중단했습니다. (${this.currentStep}단계에서 중단)`,
           steps,
-          error: 'User cancelled'
+          error: 'User cancelled',
+          ...this.getRecordResult(options.extraction),
+          startedAt,
+          finishedAt: Date.now()
         };
       }
       
@@ -117,10 +248,15 @@ export class AgentController {
         '아무 작업도 수행되지 않았습니다.';
       
       return {
+        query: initialQuery,
         success: successfulSteps.length > 0,
         summary,
+        answer,
         steps,
-        error: steps.find(s => !s.success)?.error
+        error: steps.find(s => !s.success)?.error,
+        ...this.getRecordResult(options.extraction),
+        startedAt,
+        finishedAt: Date.now()
       };
       
     } catch (error) {
@@ -129,12 +265,18 @@ export class AgentController {
       await this.clearMarkers().catch(console.warn);
       
       return {
+        query: initialQuery,
         success: false,
         summary: '작업 실행 중 오류가 발생했습니다.',
+        answer,
         error: error instanceof Error ? error.message : 'Unknown error',
-        steps
+        steps,
+        ...this.getRecordResult(options.extraction),
+        startedAt,
+        finishedAt: Date.now()
       };
     } finally {
+      await this.setTracking(false);
       this.isRunning = false;
       this.shouldStop = false;
     }
@@ -175,10 +317,77 @@ export class AgentController {
       throw new Error('Invalid response format: elements array missing');
     }
     
-    console.log(`[AgentController] Successfully received ${elements.length} elements`);
+    const metrics: MarkingMetrics | undefined = response.data?.metrics;
+    const diff: PageChangeDiff | undefined = response.data?.diff;
+    console.log(`[AgentController] Successfully received ${elements.length} elements`, metrics, diff);
+    const change = diff ? this.describePageChange(diff) : '';
+    if (change) {
+      this.addScratchpadNote(`페이지 변화: ${change}`);
+    }
+    if (metrics?.truncated) {
+      this.addScratchpadNote(`페이지가 커서 화면 밖 요소 일부를 건너뛰었습니다 (${metrics.marked}/${metrics.candidates}개, ${metrics.durationMs}ms).`);
+    }
     return elements;
   }
 
+  private async getPageText(): Promise<string | undefined> {
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'GET_PAGE_TEXT' });
+      if (!response?.success) {
+        console.warn('[AgentController] Page text unavailable:', response?.error);
+        return undefined;
+      }
+      return response.data?.text;
+    } catch (error) {
+      console.warn('[AgentController] Failed to get page text:', error);
+      return undefined;
+    }
+  }
+
+  // 텍스트만으로는 화면을 이해하기 어려운 경우: 페이지 텍스트가 거의 없거나,
+  // 보이는 요소 상당수가 이름 없는 아이콘/이미지 버튼인 경우
+  private isTextViewAmbiguous(elements: MarkedElement[], pageText?: string): boolean {
+    if (!pageText || pageText.trim().length < 200) {
+      return true;
+    }
+    
+    const unlabeled = elements.filter(el =>
+      !el.text.trim() &&
+      !el.attributes?.['aria-label'] &&
+      !el.attributes?.['title'] &&
+      !el.attributes?.['placeholder'] &&
+      !el.attributes?.['alt']
+    );
+    return elements.length > 0 && unlabeled.length / elements.length > 0.3;
+  }
+
+  // 접근성 트리를 가져오지 못하면 요소 목록만으로 진행
+  private async getAccessibilityTree(): Promise<AXTreeNode[] | undefined> {
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'GET_AX_TREE' });
+      if (!response?.success) {
+        console.warn('[AgentController] Accessibility tree unavailable:', response?.error);
+        return undefined;
+      }
+      return response.data?.tree;
+    } catch (error) {
+      console.warn('[AgentController] Failed to get accessibility tree:', error);
+      return undefined;
+    }
+  }
+
+  // 본문 읽기와 검색은 CDP 입력 없이 content script가 처리한다
+  private async runAction(action: AIAction, elements: MarkedElement[]): Promise<ActionResult> {
+    switch (action.type) {
+      case 'extract_text':
+        return await this.extractContent(action);
+      case 'find':
+        return await this.findInPage(action);
+      default:
+        return await this.executeAction(action, elements);
+    }
+  }
+
   private async executeAction(action: AIAction, elements: MarkedElement[]): Promise<ActionResult> {
     try {
       const response = await chrome.runtime.sendMessage({
@@ -206,6 +415,8 @@ export class AgentController {
       return {
         success: true,
         message: this.getActionDescription(action),
+        action,
+        locators: this.getTargetLocators(action, elements)
       };
     } catch (error) {
       return {
@@ -216,6 +427,198 @@ export class AgentController {
     }
   }
 
+  // 본문 추출은 페이지를 바꾸지 않으므로 결과를 보관했다가 이후 단계의 프롬프트에 함께 보낸다
+  private async extractContent(action: AIAction): Promise<ActionResult> {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'EXTRACT_CONTENT',
+        data: { query: action.query, chunk: action.chunk }
+      });
+      
+      if (!response?.success) {
+        return {
+          success: false,
+          message: `본문 추출 실패: ${this.getActionDescription(action)}`,
+          error: response?.error || 'No response from background script'
+        };
+      }
+      
+      const content: ExtractedContent = response.data.content;
+      this.keepExtractedContent(content);
+      const chunks = content.chunks.map(chunk => chunk.index).join(', ');
+      return {
+        success: true,
+        message: content.chunks.length > 0 ?
+          `${this.getActionDescription(action)} (전체 ${content.totalChunks}개 구간 중 ${chunks}번)` :
+          `${this.getActionDescription(action)} (일치하는 구간 없음, 전체 ${content.totalChunks}개 구간)`,
+        action
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `본문 추출 중 오류: ${this.getActionDescription(action)}`,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  // 일치 항목 주변 텍스트를 결과 메시지에 넣어 다음 단계에서 모델이 볼 수 있게 한다
+  private async findInPage(action: AIAction): Promise<ActionResult> {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'FIND_IN_PAGE',
+        data: { query: action.query, matchIndex: action.match }
+      });
+      
+      if (!response?.success) {
+        return {
+          success: false,
+          message: `검색 실패: ${this.getActionDescription(action)}`,
+          error: response?.error || 'No response from background script'
+        };
+      }
+      
+      const result: FindResult = response.data.result;
+      const summary = result.total > 0 ?
+        `${result.total}개 일치, ${result.matchIndex}번째로 이동` :
+        '일치 항목 없음';
+      const snippets = result.snippets.map(snippet => `\n   [${snippet.index}] ${snippet.text}`).join('');
+      return {
+        success: true,
+        message: `${this.getActionDescription(action)} (${summary})${snippets}`,
+        action
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `검색 중 오류: ${this.getActionDescription(action)}`,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  // 모델이 보낸 레코드를 스키마로 검증하고, 이미 모은 레코드와 같은 것은 건너뛴다
+  private collectRecords(schema: ExtractionSchema, records: unknown[]): string {
+    const { valid, errors } = validateRecords(schema, records);
+    let added = 0;
+    valid.forEach(record => {
+      const key = JSON.stringify(record);
+      if (this.recordKeys.has(key)) return;
+      this.recordKeys.add(key);
+      this.records.push(record);
+      added++;
+    });
+    
+    if (errors.length > 0) {
+      console.warn('[AgentController] Invalid records dropped:', errors);
+    }
+    const duplicates = valid.length - added;
+    return `레코드 ${added}개 수집 (총 ${this.records.length}개)` +
+      (duplicates > 0 ? `, 중복 ${duplicates}개 제외` : '') +
+      (errors.length > 0 ? `, 스키마에 맞지 않는 ${errors.length}개 제외: ${errors.slice(0, 3).join('; ')}` : '');
+  }
+
+  private getRecordResult(schema?: ExtractionSchema): Pick<AgentResult, 'records' | 'recordFields'> {
+    if (!schema) return {};
+    return {
+      records: [...this.records],
+      recordFields: schema.fields.map(field => field.name)
+    };
+  }
+
+  // 같은 페이지에서 여러 번 추출하면 구간을 모아 두되, 프롬프트가 커지지 않도록 최근 구간만 남긴다
+  private keepExtractedContent(content: ExtractedContent, maxChunks: number = 6): void {
+    const previous = this.extractedContent;
+    if (!previous || previous.url !== content.url) {
+      this.extractedContent = content;
+      return;
+    }
+    
+    const chunks = new Map(previous.chunks.map(chunk => [chunk.index, chunk]));
+    content.chunks.forEach(chunk => {
+      chunks.delete(chunk.index);
+      chunks.set(chunk.index, chunk);
+    });
+    this.extractedContent = {
+      ...content,
+      chunks: Array.from(chunks.values()).slice(-maxChunks).sort((a, b) => a.index - b.index)
+    };
+  }
+
+  private describePageChange(diff: PageChangeDiff): string {
+    const parts: string[] = [];
+    if (diff.dialogOpened) parts.push('대화상자가 나타남');
+    if (diff.dialogClosed) parts.push('대화상자가 닫힘');
+    if (diff.added > 0) parts.push(`새 요소 ${diff.added}개`);
+    if (diff.removed > 0) parts.push(`사라진 요소 ${diff.removed}개`);
+    if (diff.scrolled) parts.push('스크롤 위치 변경');
+    return parts.join(', ');
+  }
+
+  private getTargetLocators(action: AIAction, elements: MarkedElement[]): ElementLocator[] | undefined {
+    const locators = [action.elementId, action.targetElementId]
+      .map(id => elements.find(el => el.id === id)?.locator)
+      .filter((locator): locator is ElementLocator => locator !== undefined);
+    return locators.length > 0 ? locators : undefined;
+  }
+
+  // 이전 단계 이후 처리된 대화상자를 scratchpad에 기록하고, 'model' 정책으로 열려 있는 대화상자를 반환
+  private async checkDialogs(): Promise<JavaScriptDialog | null> {
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'GET_DIALOG_EVENTS' });
+      if (!response?.success) {
+        return null;
+      }
+      
+      const { events, pending } = response.data as { events: DialogEvent[]; pending: JavaScriptDialog | null };
+      events
+        .filter(event => event.outcome !== 'pending')
+        .forEach(event => this.addScratchpadNote(this.describeDialogEvent(event)));
+      
+      return pending;
+    } catch (error) {
+      console.warn('[AgentController] Failed to check dialogs:', error);
+      return null;
+    }
+  }
+
+  private describeDialogEvent(event: DialogEvent): string {
+    const outcome = event.outcome === 'accepted' ? '수락됨' : '닫힘';
+    const input = event.promptText ? `, 입력: "${event.promptText}"` : '';
+    return `JavaScript ${event.dialog.type} 대화상자 "${event.dialog.message}" → ${outcome} (정책: ${event.handledBy}${input})`;
+  }
+
+  private async waitForPageLoad(options: PageLoadWaitOptions): Promise<void> {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'WAIT_FOR_PAGE',
+        wait: options
+      });
+      
+      if (!response?.success) {
+        console.warn('[AgentController] Page load wait failed:', response?.error);
+      } else if (!response.data?.satisfied) {
+        console.warn(`[AgentController] Page did not reach ${options.until} within ${options.timeout}ms, continuing`);
+      }
+    } catch (error) {
+      console.warn('[AgentController] Failed to wait for page load:', error);
+    }
+  }
+
+  private mayNavigate(action: AIAction): boolean {
+    if (action.type === 'type') return !!action.submit;
+    return ['click', 'double_click', 'press', 'navigate', 'back', 'forward', 'reload'].includes(action.type);
+  }
+
+  // 세션 동안 content script가 페이지 변화를 추적해 요소 id를 유지하고 바뀐 부분만 다시 마킹한다
+  private async setTracking(enabled: boolean): Promise<void> {
+    try {
+      await chrome.runtime.sendMessage({ type: enabled ? 'START_TRACKING' : 'STOP_TRACKING' });
+    } catch (error) {
+      console.warn('[AgentController] Failed to update change tracking:', error);
+    }
+  }
+
   private async clearMarkers(): Promise<void> {
     try {
       await chrome.runtime.sendMessage({ 
@@ -241,14 +644,96 @@ export class AgentController {
         }
         break;
         
+      case 'ClickAt':
+        if (prediction.args && prediction.args.length >= 2) {
+          const x = parseFloat(String(prediction.args[0]));
+          const y = parseFloat(String(prediction.args[1]));
+          if (!isNaN(x) && !isNaN(y)) {
+            return { type: 'click', x, y };
+          }
+        }
+        break;
+        
+      case 'DoubleClick':
+      case 'RightClick':
+      case 'Hover':
+        if (prediction.args && prediction.args.length > 0) {
+          const type = prediction.action === 'DoubleClick' ? 'double_click' :
+            prediction.action === 'RightClick' ? 'right_click' : 'hover';
+          return {
+            type,
+            elementId: parseInt(String(prediction.args[0]))
+          };
+        }
+        break;
+        
+      case 'Drag':
+        if (prediction.args && prediction.args.length >= 2) {
+          const from = this.parseTarget(prediction.args[0]);
+          const to = this.parseTarget(prediction.args[1]);
+          if (from && to) {
+            return {
+              type: 'drag',
+              elementId: from.elementId,
+              x: from.x,
+              y: from.y,
+              targetElementId: to.elementId,
+              toX: to.x,
+              toY: to.y
+            };
+          }
+        }
+        break;
+        
       case 'Type':
         if (prediction.args && prediction.args.length >= 2) {
           const elementId = parseInt(String(prediction.args[0]));
           const text = String(prediction.args[1]);
+          const submit = /^(enter|submit|true)$/i.test(String(prediction.args[2] ?? ''));
           return {
             type: 'type',
             elementId: elementId,
-            text: text
+            text: text,
+            submit
+          };
+        }
+        break;
+        
+      case 'Select':
+        if (prediction.args && prediction.args.length >= 2) {
+          return {
+            type: 'select_option',
+            elementId: parseInt(String(prediction.args[0])),
+            option: String(prediction.args[1])
+          };
+        }
+        break;
+        
+      case 'Upload':
+        if (prediction.args && prediction.args.length > 0) {
+          const names = prediction.args.slice(1).map(arg => String(arg).trim()).filter(Boolean);
+          return {
+            type: 'upload',
+            elementId: parseInt(String(prediction.args[0])),
+            files: names.length > 0 ? names : undefined
+          };
+        }
+        break;
+        
+      case 'Dialog': {
+        const decision = String(prediction.args?.[0] ?? 'accept');
+        return {
+          type: 'handle_dialog',
+          accept: !/^(dismiss|cancel|false|no)$/i.test(decision.trim()),
+          text: prediction.args?.[1] !== undefined ? String(prediction.args[1]) : undefined
+        };
+      }
+        
+      case 'Press':
+        if (prediction.args && prediction.args.length > 0) {
+          return {
+            type: 'press',
+            key: String(prediction.args[0])
           };
         }
         break;
@@ -263,6 +748,34 @@ export class AgentController {
         }
         break;
         
+      case 'ScrollTo':
+        if (prediction.args && prediction.args.length > 0) {
+          const elementId = parseInt(String(prediction.args[0]));
+          if (!isNaN(elementId)) {
+            return { type: 'scroll_to', elementId };
+          }
+        }
+        break;
+        
+      case 'ExtractText': {
+        const arg = prediction.args && prediction.args.length > 0 ? String(prediction.args[0]).trim() : '';
+        if (/^\d+$/.test(arg)) {
+          return { type: 'extract_text', chunk: parseInt(arg) };
+        }
+        return { type: 'extract_text', query: arg || undefined };
+      }
+        
+      case 'Find':
+        if (prediction.args && prediction.args.length > 0 && String(prediction.args[0]).trim()) {
+          const match = prediction.args.length > 1 ? parseInt(String(prediction.args[1])) : NaN;
+          return {
+            type: 'find',
+            query: String(prediction.args[0]).trim(),
+            match: isNaN(match) ? undefined : match
+          };
+        }
+        break;
+        
       case 'Wait':
         return {
           type: 'wait',
@@ -270,7 +783,13 @@ export class AgentController {
         };
         
       case 'GoBack':
-        return { type: 'done' };
+        return { type: 'back' };
+        
+      case 'GoForward':
+        return { type: 'forward' };
+        
+      case 'Reload':
+        return { type: 'reload' };
         
       case 'Navigate':
         return {
@@ -291,12 +810,55 @@ export class AgentController {
     return { type: 'done' };
   }
 
+  // 모델이 준 좌표는 스크린샷 픽셀 기준이므로 요소 rect와 같은 viewport(CSS) 좌표로 변환한다
+  private toViewportCoordinates(action: AIAction, screenshot: ScreenshotData | null): AIAction {
+    if (!screenshot) {
+      return action;
+    }
+    
+    const converted = { ...action };
+    if (action.x !== undefined && action.y !== undefined) {
+      const point = screenshotToViewport({ x: action.x, y: action.y }, screenshot);
+      converted.x = point.x;
+      converted.y = point.y;
+    }
+    if (action.toX !== undefined && action.toY !== undefined) {
+      const point = screenshotToViewport({ x: action.toX, y: action.toY }, screenshot);
+      converted.toX = point.x;
+      converted.toY = point.y;
+    }
+    return converted;
+  }
+
+  private hasCoordinates(action: AIAction): boolean {
+    return (action.x !== undefined && action.y !== undefined) || (action.toX !== undefined && action.toY !== undefined);
+  }
+
+  // 요소 번호("12") 또는 좌표("100,200")를 해석
+  private parseTarget(arg: unknown): { elementId?: number; x?: number; y?: number } | null {
+    const value = String(arg).trim();
+    const coords = value.match(/^\(?\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*\)?$/);
+    if (coords) {
+      return { x: parseFloat(coords[1]), y: parseFloat(coords[2]) };
+    }
+    
+    const elementId = parseInt(value);
+    return isNaN(elementId) ? null : { elementId };
+  }
+
   private updateScratchpad(result: ActionResult): void {
     const stepNumber = this.currentStep;
     if (this.scratchpad === '') {
       this.scratchpad = 'Previous action observations:\n';
     }
-    this.scratchpad += `\n${stepNumber}. ${result.message}`;
+    this.scratchpad += `\n${stepNumber}. ${result.message}${result.error ? ` (${result.error})` : ''}`;
+  }
+
+  private addScratchpadNote(note: string): void {
+    if (this.scratchpad === '') {
+      this.scratchpad = 'Previous action observations:\n';
+    }
+    this.scratchpad += `\n   - ${note}`;
   }
 
 
@@ -305,6 +867,11 @@ export class AgentController {
     console.log('[AgentController] Claude API key configured');
   }
 
+  setPageRepresentation(representation: PageRepresentation) {
+    this.pageRepresentation = representation;
+    console.log(`[AgentController] Page representation: ${representation}`);
+  }
+
   isApiReady(): boolean {
     return this.claudeClient.hasApiKey();
   }
@@ -312,17 +879,52 @@ export class AgentController {
   private getActionDescription(action: AIAction): string {
     switch (action.type) {
       case 'click':
-        return action.elementId ? `요소 ${action.elementId} 클릭` : '클릭';
-      case 'type':
-        return action.elementId ? 
+        if (action.elementId !== undefined) return `요소 ${action.elementId} 클릭`;
+        return action.x !== undefined && action.y !== undefined ? `좌표 (${Math.round(action.x)}, ${Math.round(action.y)}) 클릭` : '클릭';
+      case 'double_click':
+        return `요소 ${action.elementId} 더블 클릭`;
+      case 'right_click':
+        return `요소 ${action.elementId} 우클릭`;
+      case 'hover':
+        return `요소 ${action.elementId}에 마우스 올리기`;
+      case 'drag': {
+        const from = action.elementId !== undefined ? `요소 ${action.elementId}` : `(${action.x}, ${action.y})`;
+        const to = action.targetElementId !== undefined ? `요소 ${action.targetElementId}` : `(${action.toX}, ${action.toY})`;
+        return `${from}에서 ${to}로 드래그`;
+      }
+      case 'type': {
+        const typed = action.elementId !== undefined ? 
           `요소 ${action.elementId}에 "${action.text}" 입력` : 
           `"${action.text}" 입력`;
+        return action.submit ? `${typed} 후 Enter` : typed;
+      }
+      case 'press':
+        return `${action.key} 키 입력`;
+      case 'upload':
+        return `요소 ${action.elementId}에 ${action.files?.join(', ') || '준비된 파일'} 업로드`;
+      case 'handle_dialog':
+        return action.accept === false ? '대화상자 닫기' : '대화상자 수락';
+      case 'select_option':
+        return `요소 ${action.elementId}에서 "${action.option}" 선택`;
       case 'scroll':
         return `${action.direction === 'up' ? '위로' : '아래로'} 스크롤`;
+      case 'scroll_to':
+        return `요소 ${action.elementId}가 보이도록 스크롤`;
+      case 'extract_text':
+        if (action.chunk !== undefined) return `본문 ${action.chunk}번 구간 읽기`;
+        return action.query ? `본문에서 "${action.query}" 찾기` : '본문 읽기';
+      case 'find':
+        return `페이지에서 "${action.query}" 검색`;
       case 'wait':
         return `${action.duration || 2000}ms 대기`;
       case 'navigate':
         return `${action.url}로 이동`;
+      case 'back':
+        return '이전 페이지로 이동';
+      case 'forward':
+        return '다음 페이지로 이동';
+      case 'reload':
+        return '페이지 새로고침';
       case 'done':
         return '작업 완료';
       default:
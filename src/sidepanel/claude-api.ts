@@ -1,16 +1,40 @@
 import { ChatAnthropic } from '@langchain/anthropic';
 import { z } from 'zod';
 import { BaseCallbackHandler } from '@langchain/core/callbacks/base';
-import type { MarkedElement, ScreenshotData } from '../shared/types';
+import { OutputParserException } from '@langchain/core/output_parsers';
+import { buildOutputRecordSchema, describeExtractionSchema, type ExtractionSchema } from './extraction-schema';
+import type { AXTreeNode, ElementState, ExtractedContent, JavaScriptDialog, MarkedElement, ScreenshotData } from '../shared/types';
 
 // Zod schema for structured output
 const PredictionSchema = z.object({
-  action: z.enum(['Click', 'Type', 'Scroll', 'Wait', 'GoBack', 'Navigate', 'ANSWER', 'retry']),
+  action: z.enum(['Click', 'ClickAt', 'DoubleClick', 'RightClick', 'Hover', 'Drag', 'Type', 'Press', 'Select', 'Upload', 'Dialog', 'Scroll', 'ScrollTo', 'ExtractText', 'Find', 'Collect', 'Wait', 'Screenshot', 'GoBack', 'GoForward', 'Reload', 'Navigate', 'ANSWER', 'retry']),
   args: z.array(z.unknown()).optional(),
   reasoning: z.string()
 });
 
-export type Prediction = z.infer<typeof PredictionSchema>;
+// records는 구조화 추출을 켰을 때만 스키마에 추가된다 (검증 전 원본)
+export type Prediction = z.infer<typeof PredictionSchema> & { records?: unknown[] };
+
+// 응답 토큰 한도. 구조화 추출은 records가 길어지므로 JSON이 잘리지 않도록 더 크게 잡는다
+const MAX_TOKENS = 1024;
+const EXTRACTION_MAX_TOKENS = 8192;
+// 한 응답에 담을 레코드 수. 나머지는 다음 단계에서 이어서 보낸다
+const MAX_RECORDS_PER_RESPONSE = 25;
+
+// 페이지를 모델에게 설명하는 방식: DOM 기반 요소 목록, 접근성 트리, 또는 둘 다
+export type PageRepresentation = 'elements' | 'accessibility' | 'both';
+
+export interface AnalyzeOptions {
+  stagedFiles?: string[];
+  pendingDialog?: JavaScriptDialog;
+  pageRepresentation?: PageRepresentation;
+  axTree?: AXTreeNode[];
+  pageText?: string; // 스크린샷 없이 관찰할 때 함께 보내는 페이지 텍스트
+  extractedContent?: ExtractedContent; // ExtractText로 읽은 본문 구간
+  extraction?: ExtractionSchema; // 구조화 추출: 응답의 records를 이 스키마로 받는다
+  collectedRecords?: number;
+  canRequestScreenshot?: boolean;
+}
 
 class WebVoyagerCallbackHandler extends BaseCallbackHandler {
   name = 'WebVoyagerCallbackHandler';
@@ -77,82 +101,144 @@ class WebVoyagerCallbackHandler extends BaseCallbackHandler {
 
 export class ClaudeAPIClient {
   private model: ChatAnthropic | null = null;
+  private extractionModel: ChatAnthropic | null = null;
 
   constructor() {
     console.log('[ClaudeAPIClient] Initialized with LangChain');
   }
 
   async analyzePage(
-    screenshot: ScreenshotData,
+    screenshot: ScreenshotData | null,
     elements: MarkedElement[],
     userQuery: string,
-    scratchpad: string = ''
+    scratchpad: string = '',
+    options: AnalyzeOptions = {}
   ): Promise<Prediction> {
     
     if (!this.model) {
       throw new Error('Claude API key not set. Please configure your API key first.');
     }
     
-    return await this.callLangChainClaude(screenshot, elements, userQuery, scratchpad);
+    return await this.callLangChainClaude(screenshot, elements, userQuery, scratchpad, options);
   }
 
   private async callLangChainClaude(
-    screenshot: ScreenshotData,
+    screenshot: ScreenshotData | null,
     elements: MarkedElement[],
     userQuery: string,
-    scratchpad: string
+    scratchpad: string,
+    options: AnalyzeOptions
   ): Promise<Prediction> {
     if (!this.model) {
       throw new Error('Claude model not initialized');
     }
 
-    const bboxDescriptions = this.formatBBoxDescriptions(elements);
+    const pageRepresentation = options.axTree ? options.pageRepresentation || 'elements' : 'elements';
+    const pageSections: string[] = [];
+    if (pageRepresentation !== 'accessibility') {
+      pageSections.push(this.formatBBoxDescriptions(elements));
+    }
+    if (pageRepresentation !== 'elements' && options.axTree) {
+      pageSections.push(this.formatAXTree(options.axTree));
+    }
+    const pageDescription = pageSections.join('\n\n');
+    const dialogSection = options.pendingDialog ?
+      `\nA JavaScript ${options.pendingDialog.type} dialog is open and blocks the page. The screenshot was taken before it opened.
+Dialog message: "${options.pendingDialog.message}"${options.pendingDialog.defaultPrompt ? `\nDefault prompt value: "${options.pendingDialog.defaultPrompt}"` : ''}
+You must respond with the Dialog action now.\n` :
+      '';
+    const stagedFiles = options.stagedFiles && options.stagedFiles.length > 0 ?
+      options.stagedFiles.join(', ') :
+      'none';
     
     try {
       console.log('[ClaudeAPIClient] 🚀 Starting LangChain Claude API call...');
       console.log('[ClaudeAPIClient] 📝 User Query:', userQuery);
       console.log('[ClaudeAPIClient] 🎯 Elements found:', elements.length);
-      console.log('[ClaudeAPIClient] 📊 Screenshot size:', screenshot.data.length, 'chars');
+      console.log('[ClaudeAPIClient] 📊 Screenshot size:', screenshot ? `${screenshot.data.length} chars` : 'none');
       console.log('[ClaudeAPIClient] 📋 Scratchpad:', scratchpad || 'Empty');
       
-      const structuredModel = this.model.withStructuredOutput(PredictionSchema);
-      console.log('[ClaudeAPIClient] ⚙️ Structured model created with schema:', PredictionSchema.shape);
+      // 레코드는 사용자 필드의 키와 타입으로 받고, 필수 필드 확인과 오류 안내는 AgentController가 validateRecords로 한다
+      const outputSchema = options.extraction ?
+        PredictionSchema.extend({
+          records: z.array(buildOutputRecordSchema(options.extraction)).optional()
+            .describe('Records found on the current page for the data extraction task')
+        }) :
+        PredictionSchema;
+      const structuredModel = (options.extraction && this.extractionModel ? this.extractionModel : this.model).withStructuredOutput(outputSchema);
+      console.log('[ClaudeAPIClient] ⚙️ Structured model created with schema:', outputSchema.shape);
       
-      const promptText = `You are a web automation assistant. Analyze this screenshot and user request to determine the next action.
+      const observationSection = screenshot ?
+        (screenshot.width && screenshot.height ? `\nThe screenshot is ${screenshot.width}x${screenshot.height} pixels. Give "x,y" coordinates in screenshot pixels.\n` : '') :
+        `\nNo screenshot is attached for this step. Use the element list and the page text below.${options.canRequestScreenshot ? ' If they are not enough to decide, respond with the Screenshot action to get a screenshot in the next step.' : ''}\n` +
+        (options.pageText ? `\nPage text:\n${options.pageText}\n` : '');
+      const extractedSection = options.extractedContent ?
+        `\n${this.formatExtractedContent(options.extractedContent)}\n` :
+        '';
+      const extractionSection = options.extraction ?
+        `\nData extraction: the user wants records with these fields (use the key at the start of each line as the property name):\n${describeExtractionSchema(options.extraction)}\n` +
+        `Put records you can see on the current page in the "records" field of your response (with Collect, or with any other action such as going to the next page). ` +
+        `Only include records you have not sent before (${options.collectedRecords || 0} collected so far). Use null for values that are missing on the page. ` +
+        `Send at most ${MAX_RECORDS_PER_RESPONSE} records per response; if the page has more, Collect them and continue with the rest in the next step. ` +
+        `Respond with ANSWER once all requested records are collected.\n` :
+        '';
+      const clickAtAction = screenshot ?
+        '\n- ClickAt [x];[y] - Click at a point in the screenshot (pixels). Only for targets without an element number, such as canvas apps, maps or custom widgets' :
+        '';
+      const screenshotAction = options.canRequestScreenshot ?
+        '\n- Screenshot - Request a screenshot of the page for the next step (use when the text view is ambiguous)' :
+        '';
+      
+      const promptText = `You are a web automation assistant. Analyze ${screenshot ? 'this screenshot' : 'this page'} and user request to determine the next action.
 
 Available actions:
-- Click [number] - Click on the element with that number
-- Type [number];[text] - Type text into the element 
+- Click [number] - Click on the element with that number${clickAtAction}
+- DoubleClick [number] - Double-click on the element (e.g. to edit a cell or select a word)
+- RightClick [number] - Right-click on the element to open its context menu
+- Hover [number] - Move the mouse over the element (e.g. to open a hover menu)
+- Drag [from];[to] - Drag from one element to another. Each of from/to is an element number${screenshot ? ' or "x,y" coordinates' : ''}
+- Type [number];[text];[enter] - Type text into the element. Add "enter" as the third arg to submit with the Enter key
+- Select [number];[option] - Choose an option of a <select> element by its label or value (see its listed options). Do not Click <select> elements
+- Upload [number];[file name] - Attach a staged file to a file input (<input type="file">). Omit the file name to attach all staged files. Staged files: ${stagedFiles}
+- Dialog [accept|dismiss];[text] - Respond to an open JavaScript dialog (text is only used for prompt dialogs)
+- Press [key] - Press a key or shortcut on the focused element (e.g. Enter, Tab, Escape, ArrowDown, Control+Enter)
 - Scroll [WINDOW|number];[up|down] - Scroll window or element
-- Wait - Wait 5 seconds
-- GoBack - Go back one page
+- ScrollTo [number] - Scroll the page until the element is in view. Use it for elements listed as offscreen before acting on them
+- Find [text];[match number] - Search the whole page, including offscreen parts, for text or a /regex/flags. Returns the match count with snippets, scrolls to the given match (default 1) and highlights it. Only text of the form /pattern/flags with flags from dimsuv (e.g. /price:\\s*\\d+/i) is a regex; anything else, such as /docs/api, is searched literally
+- ExtractText [query|chunk number] - Read the main content of the page as Markdown, including parts outside the screen. Give a query to get the most relevant chunks, a chunk number to read from that chunk, or no args to read from the start. Use it before ANSWER when the request is about the page content (summaries, prices, facts)
+- Wait - Wait 5 seconds${options.extraction ? '\n- Collect - Save the records in "records" and continue with the task' : ''}
+- GoBack - Go back to the previous page in history
+- GoForward - Go forward to the next page in history
+- Reload - Reload the current page
 - Navigate - Navigate to the URL
 - ANSWER - Task completed
-- retry - Retry if there was an error
+- retry - Retry if there was an error${screenshotAction}
 
 Always respond with a valid JSON object containing "action", "args", and "reasoning" fields.
 
 User Request: ${userQuery}
 
-${bboxDescriptions}
-
+${pageDescription}
+${observationSection}${extractedSection}${extractionSection}${dialogSection}
 Previous actions:
 ${scratchpad || 'No previous actions'}
 
-Based on the screenshot and available elements, determine the next action to take.`;
+Based on the ${screenshot ? 'screenshot' : 'page text'} and available elements, determine the next action to take.`;
       
-      const messageWithImage = [
+      const messageWithImage: Array<{ type: string; [key: string]: unknown }> = [
         {
           type: "text",
           text: promptText
-        },
-        {
+        }
+      ];
+      if (screenshot) {
+        messageWithImage.push({
           type: "image_url",
           image_url: {
-            url: `data:image/png;base64,${screenshot.data}`
+            url: `data:image/${screenshot.format};base64,${screenshot.data}`
           }
-        }
-      ];
+        });
+      }
 
       console.log('[ClaudeAPIClient] 📤 Sending message with prompt length:', promptText.length);
       console.log('[ClaudeAPIClient] 🖼️ Image data prepared with base64 prefix');
@@ -161,18 +247,40 @@ Based on the screenshot and available elements, determine the next action to tak
 
       const callbackHandler = new WebVoyagerCallbackHandler();
 
-      const result = await structuredModel.invoke([
+      const invoke = () => structuredModel.invoke([
         { role: "human", content: messageWithImage }
       ], {
         callbacks: [callbackHandler]
       });
 
+      let result: Prediction;
+      try {
+        result = await invoke();
+      } catch (error) {
+        // 레코드 값이 필드 타입과 맞지 않으면 응답 파싱이 실패한다. 한 번 다시 요청하고, 그래도 실패하면 이번 단계를 건너뛴다
+        if (!options.extraction || !(error instanceof OutputParserException)) throw error;
+        console.warn('[ClaudeAPIClient] ⚠️ Response did not match the record schema, retrying:', error.message);
+        try {
+          result = await invoke();
+        } catch (retryError) {
+          if (!(retryError instanceof OutputParserException)) throw retryError;
+          console.warn('[ClaudeAPIClient] ⚠️ Response did not match the record schema again, skipping step');
+          return {
+            action: 'retry',
+            reasoning: `The response did not match the record schema (${retryError.message}). Use the field types listed for data extraction and null for missing values.`
+          };
+        }
+      }
+
       const endTime = Date.now();
       console.log('[ClaudeAPIClient] ⏱️ API call completed in', endTime - startTime, 'ms');
       console.log('[ClaudeAPIClient] 📥 Raw LangChain response:', JSON.stringify(result, null, 2));
       console.log('[ClaudeAPIClient] 🎯 Action:', result.action);
       console.log('[ClaudeAPIClient] 📝 Args:', result.args);
       console.log('[ClaudeAPIClient] 🧠 Reasoning:', result.reasoning);
+      if (options.extraction) {
+        console.log('[ClaudeAPIClient] 📦 Records:', result.records?.length ?? 0);
+      }
       
       // Zod schema로 이미 검증된 결과 반환
       return result;
@@ -211,11 +319,35 @@ Based on the screenshot and available elements, determine the next action to tak
         .map(([key, value]) => `${key}="${value}"`)
         .join(' ');
       
-      const description = `${i} (<${type} ${attrs}/>): "${text.slice(0, 50)}"`;
+      let description = `${el.id} (<${type} ${attrs}/>): "${text.slice(0, 50)}"`;
+      if (el.label && el.label !== text) {
+        description += ` label="${el.label.slice(0, 50)}"`;
+      }
+      if (el.value !== undefined) {
+        description += ` value="${el.value.slice(0, 50)}"`;
+      }
+      const states = this.formatElementState(el.state);
+      if (states) {
+        description += ` [${states}]`;
+      }
+      // 화면 밖이나 가려진 요소는 스크린샷에 번호가 없으므로 목록에서 구분해 준다
+      if (el.visibility && el.visibility !== 'in-viewport') {
+        description += ` (${el.visibility})`;
+      }
+      if (el.options && el.options.length > 0) {
+        const options = el.options
+          .filter(option => !option.disabled)
+          .slice(0, 20)
+          .map(option => `"${option.label}"${option.selected ? '*' : ''}`);
+        const more = el.options.length > 20 ? `, ... (${el.options.length - 20} more)` : '';
+        description += ` options: [${options.join(', ')}${more}]`;
+      }
       console.log('[ClaudeAPIClient] 🔸 Element', i, ':', {
         id: el.id,
         tag: type,
         text: text.slice(0, 30),
+        reason: el.reason,
+        visibility: el.visibility,
         rect: `${Math.round(el.rect.left)},${Math.round(el.rect.top)} ${Math.round(el.rect.width)}x${Math.round(el.rect.height)}`,
         attributes: Object.keys(el.attributes || {}).length
       });
@@ -223,33 +355,109 @@ Based on the screenshot and available elements, determine the next action to tak
       return description;
     });
 
-    const formatted = `Valid Bounding Boxes:\n${descriptions.join('\n')}`;
+    const hasHidden = elements.some(el => el.visibility && el.visibility !== 'in-viewport');
+    const hiddenNote = hasHidden ?
+      '\nElements marked (offscreen-*) are outside the visible area and elements marked (occluded) are covered by something else. Neither has a number in the screenshot. Offscreen elements are scrolled into view automatically when you act on them, or use ScrollTo to look at them first. Close or dismiss whatever covers an occluded element before acting on it.' :
+      '';
+    const formatted = `Valid Bounding Boxes:${hiddenNote}\n${descriptions.join('\n')}`;
     console.log('[ClaudeAPIClient] 📋 Final formatted descriptions length:', formatted.length);
     
     return formatted;
   }
 
 
+  private formatElementState(state?: ElementState): string {
+    if (!state) return '';
+    
+    const parts: string[] = [];
+    if (state.disabled) parts.push('disabled');
+    if (state.checked === 'mixed') parts.push('mixed');
+    else if (state.checked !== undefined) parts.push(state.checked ? 'checked' : 'unchecked');
+    if (state.selected) parts.push('selected');
+    if (state.expanded !== undefined) parts.push(state.expanded ? 'expanded' : 'collapsed');
+    if (state.focused) parts.push('focused');
+    if (state.required) parts.push('required');
+    if (state.readonly) parts.push('readonly');
+    return parts.join(', ');
+  }
+
+  private formatExtractedContent(content: ExtractedContent, maxLength: number = 8000): string {
+    const outline = content.outline
+      .map((heading, i) => heading ? `${i + 1}. ${heading}` : '')
+      .filter(Boolean)
+      .slice(0, 30);
+    const header = [
+      `Extracted page content from ${content.url} ("${content.title}"), ${content.totalChunks} chunks${content.query ? `, search: "${content.query}"` : ''}:`,
+      outline.length > 0 ? `Chunk outline:\n${outline.join('\n')}` : ''
+    ].filter(Boolean).join('\n');
+    
+    if (content.chunks.length === 0) {
+      return `${header}\nNo chunk matched the search. Try other words or read a chunk by number.`;
+    }
+    
+    // 구간을 순서대로 넣다가 길이 제한에 닿으면 마지막 구간을 자른다
+    const chunks: string[] = [];
+    let remaining = maxLength;
+    for (const chunk of content.chunks) {
+      if (remaining <= 0) break;
+      const text = chunk.text.length > remaining ? `${chunk.text.slice(0, remaining)}\n... (truncated)` : chunk.text;
+      chunks.push(`--- Chunk ${chunk.index}/${content.totalChunks}${chunk.heading ? ` (${chunk.heading})` : ''} ---\n${text}`);
+      remaining -= chunk.text.length;
+    }
+    
+    return `${header}\n${chunks.join('\n')}`;
+  }
+
+  private formatAXTree(nodes: AXTreeNode[], maxLines: number = 400): string {
+    const lines: string[] = [];
+    
+    const visit = (node: AXTreeNode, depth: number) => {
+      if (lines.length >= maxLines) return;
+      
+      let line = `${'  '.repeat(depth)}- ${node.role}`;
+      if (node.name) line += ` "${node.name}"`;
+      if (node.elementId !== undefined) line += ` [${node.elementId}]`;
+      if (node.value) line += ` value="${node.value}"`;
+      if (node.states && node.states.length > 0) line += ` (${node.states.join(', ')})`;
+      lines.push(line);
+      
+      node.children?.forEach(child => visit(child, depth + 1));
+    };
+    nodes.forEach(node => visit(node, 0));
+    
+    const truncated = lines.length >= maxLines ? '\n  ... (truncated)' : '';
+    console.log('[ClaudeAPIClient] 🌳 Formatted accessibility tree lines:', lines.length);
+    
+    return `Accessibility tree (numbers in [brackets] are element numbers you can act on):\n${lines.join('\n')}${truncated}`;
+  }
+
+
   // API 키 설정 및 LangChain 모델 초기화
   setApiKey(apiKey: string) {
     try {
-      this.model = new ChatAnthropic({
-        anthropicApiKey: apiKey,
-        model: 'claude-sonnet-4-5', // 최신 Claude 3.5 Sonnet 모델
-        maxTokens: 1024,
-        temperature: 0.1, // 일관된 출력을 위해 낮은 temperature
-        verbose: true, // LangChain 내부 로깅 활성화
-        callbacks: [new WebVoyagerCallbackHandler()] // 글로벌 콜백 핸들러
-      });
+      this.model = this.createModel(apiKey, MAX_TOKENS);
+      this.extractionModel = this.createModel(apiKey, EXTRACTION_MAX_TOKENS);
       
       console.log('[ClaudeAPIClient] LangChain Claude model initialized successfully');
     } catch (error) {
       console.error('[ClaudeAPIClient] Failed to initialize Claude model:', error);
       this.model = null;
+      this.extractionModel = null;
       throw new Error(`Failed to initialize Claude model: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  private createModel(apiKey: string, maxTokens: number): ChatAnthropic {
+    return new ChatAnthropic({
+      anthropicApiKey: apiKey,
+      model: 'claude-sonnet-4-5', // 최신 Claude 3.5 Sonnet 모델
+      maxTokens,
+      temperature: 0.1, // 일관된 출력을 위해 낮은 temperature
+      verbose: true, // LangChain 내부 로깅 활성화
+      callbacks: [new WebVoyagerCallbackHandler()] // 글로벌 콜백 핸들러
+    });
+  }
+
   // 모델 상태 확인
   hasApiKey(): boolean {
     return !!this.model;
@@ -0,0 +1,182 @@
+import { z } from 'zod';
+import type { ExtractedRecord } from '../shared/types';
+
+export type ExtractionFieldType = 'string' | 'number' | 'integer' | 'boolean';
+
+export interface ExtractionField {
+  name: string; // 사용자가 입력한 이름. 표의 열 제목과 내보내기에 쓴다
+  key: string; // 모델 응답에서 쓰는 속성 이름
+  type: ExtractionFieldType;
+  description?: string;
+  required: boolean;
+}
+
+export interface ExtractionSchema {
+  fields: ExtractionField[];
+}
+
+const FIELD_TYPES: ExtractionFieldType[] = ['string', 'number', 'integer', 'boolean'];
+// Anthropic API는 tool input_schema의 속성 이름으로 이 형식만 허용한다
+const SAFE_KEY = /^[a-zA-Z0-9_.-]{1,64}$/;
+
+// 사용자가 입력한 JSON Schema 또는 "name, price:number, url" 같은 필드 목록을 해석한다.
+// 필드 목록의 필드는 페이지에 없을 수 있으므로 모두 선택 항목으로 둔다
+export function parseExtractionSchema(input: string): ExtractionSchema {
+  const text = input.trim();
+  if (!text) {
+    throw new Error('Extraction schema is empty');
+  }
+
+  const fields = text.startsWith('{') ? parseJsonSchema(text) : parseFieldList(text);
+  if (fields.length === 0) {
+    throw new Error('Extraction schema has no fields');
+  }
+
+  const names = new Set<string>();
+  fields.forEach(field => {
+    if (names.has(field.name)) {
+      throw new Error(`Duplicate field: ${field.name}`);
+    }
+    names.add(field.name);
+  });
+  return { fields: assignKeys(fields) };
+}
+
+// "상품명"처럼 API가 받지 않는 이름은 field_1 같은 ASCII 키로 바꾸고, 원래 이름은 표시용으로 남긴다
+function assignKeys(fields: Array<Omit<ExtractionField, 'key'>>): ExtractionField[] {
+  const used = new Set(fields.filter(field => SAFE_KEY.test(field.name)).map(field => field.name));
+  return fields.map((field, i) => {
+    if (SAFE_KEY.test(field.name)) {
+      return { ...field, key: field.name };
+    }
+    let key = `field_${i + 1}`;
+    for (let n = 2; used.has(key); n++) {
+      key = `field_${i + 1}_${n}`;
+    }
+    used.add(key);
+    return { ...field, key };
+  });
+}
+
+function parseFieldList(text: string): Array<Omit<ExtractionField, 'key'>> {
+  return text.split(/[,\n]/).map(item => item.trim()).filter(Boolean).map(item => {
+    const [name, type = 'string'] = item.split(':').map(part => part.trim());
+    if (!/^[\p{L}_][\p{L}\p{N}_ -]*$/u.test(name)) {
+      throw new Error(`Invalid field name: "${name}"`);
+    }
+    return { name, type: toFieldType(type, name), required: false };
+  });
+}
+
+// { type: 'object', properties } 또는 그 배열({ type: 'array', items })의 1단계 속성만 지원한다
+function parseJsonSchema(text: string): Array<Omit<ExtractionField, 'key'>> {
+  let schema: unknown;
+  try {
+    schema = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid JSON Schema: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const root = asObject(schema);
+  const objectSchema = root?.type === 'array' ? asObject(root.items) : root;
+  const properties = asObject(objectSchema?.properties);
+  if (!objectSchema || !properties) {
+    throw new Error('JSON Schema must be an object with "properties" (or an array of such objects)');
+  }
+
+  const required = new Set(Array.isArray(objectSchema.required) ?
+    objectSchema.required.filter((name): name is string => typeof name === 'string') :
+    []);
+  return Object.entries(properties).map(([name, value]) => {
+    const property = asObject(value);
+    // ["string", "null"]처럼 null을 허용하는 타입은 선택 항목으로 본다
+    const types = (Array.isArray(property?.type) ? property.type : [property?.type ?? 'string'])
+      .filter((type): type is string => typeof type === 'string');
+    const type = types.find(type => type !== 'null') ?? 'string';
+    return {
+      name,
+      type: toFieldType(type, name),
+      description: typeof property?.description === 'string' ? property.description : undefined,
+      required: required.has(name) && !types.includes('null')
+    };
+  });
+}
+
+function asObject(value: unknown): Record<string, unknown> | null {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : null;
+}
+
+function toFieldType(type: string, name: string): ExtractionFieldType {
+  const normalized = type.toLowerCase();
+  if (!FIELD_TYPES.includes(normalized as ExtractionFieldType)) {
+    throw new Error(`Unsupported type "${type}" for field ${name}. Use ${FIELD_TYPES.join(', ')}`);
+  }
+  return normalized as ExtractionFieldType;
+}
+
+function toZodType(type: ExtractionFieldType): z.ZodType {
+  return type === 'boolean' ? z.boolean() :
+    type === 'integer' ? z.number().int() :
+    type === 'number' ? z.number() :
+    z.string();
+}
+
+// 모델 응답(tool input_schema)에 넣는 레코드 스키마. 필드와 타입은 고정하되 모든 필드에 null을 허용해,
+// 페이지에 값이 없는 레코드 하나 때문에 응답 전체가 파싱 오류가 되지 않게 한다
+export function buildOutputRecordSchema(schema: ExtractionSchema) {
+  const shape: Record<string, z.ZodType> = {};
+  schema.fields.forEach(field => {
+    const label = field.key !== field.name ? field.name : '';
+    const description = [label, field.description].filter(Boolean).join(': ');
+    const value = toZodType(field.type).nullable();
+    shape[field.key] = description ? value.describe(description) : value;
+  });
+  return z.object(shape);
+}
+
+// 수집 전에 레코드를 하나씩 다시 검증하는 스키마. 필수 필드의 null은 여기서 걸러진다
+function buildRecordSchema(schema: ExtractionSchema) {
+  const shape: Record<string, z.ZodType> = {};
+  schema.fields.forEach(field => {
+    const value = toZodType(field.type);
+    shape[field.key] = field.required ? value : value.nullable().optional();
+  });
+  return z.object(shape);
+}
+
+export function describeExtractionSchema(schema: ExtractionSchema): string {
+  return schema.fields
+    .map(field => {
+      const label = field.key !== field.name ? ` "${field.name}"` : '';
+      return `${field.key}${label} (${field.type}${field.required ? ', required' : ''})${field.description ? `: ${field.description}` : ''}`;
+    })
+    .join('\n');
+}
+
+// 스키마에 맞지 않는 레코드는 버리고 이유를 돌려준다. 빠진 선택 항목은 null로 채워 표의 열을 맞춘다
+export function validateRecords(schema: ExtractionSchema, records: unknown[]): { valid: ExtractedRecord[]; errors: string[] } {
+  const recordSchema = buildRecordSchema(schema);
+  const valid: ExtractedRecord[] = [];
+  const errors: string[] = [];
+
+  records.forEach((record, i) => {
+    const result = recordSchema.safeParse(record);
+    if (!result.success) {
+      errors.push(`record ${i + 1}: ${result.error.issues.map(issue => `${issue.path.join('.') || 'record'} ${issue.message}`).join(', ')}`);
+      return;
+    }
+
+    const parsed = result.data as Record<string, ExtractedRecord[string] | undefined>;
+    const normalized: ExtractedRecord = {};
+    schema.fields.forEach(field => {
+      normalized[field.name] = parsed[field.key] ?? null;
+    });
+    if (Object.values(normalized).every(value => value === null || value === '')) {
+      errors.push(`record ${i + 1}: all fields are empty`);
+      return;
+    }
+    valid.push(normalized);
+  });
+
+  return { valid, errors };
+}
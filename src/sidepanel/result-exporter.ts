@@ -0,0 +1,156 @@
+import type { AgentResult } from './agent-controller';
+import type { ExtractedRecord } from '../shared/types';
+
+export type RecordExportFormat = 'csv' | 'json';
+export type RunExportFormat = 'markdown' | 'json';
+
+const MIME_TYPES: Record<RecordExportFormat | RunExportFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+  markdown: 'text/markdown'
+};
+
+const EXTENSIONS: Record<RecordExportFormat | RunExportFormat, string> = {
+  csv: 'csv',
+  json: 'json',
+  markdown: 'md'
+};
+
+// =, +, -, @나 탭/줄바꿈으로 시작하는 셀은 스프레드시트가 수식으로 해석할 수 있다
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// 추출한 레코드와 실행 기록을 chrome.downloads로 저장하거나 클립보드에 복사한다
+export class ResultExporter {
+  async exportRecords(records: ExtractedRecord[], fields: string[], format: RecordExportFormat): Promise<void> {
+    const content = format === 'csv' ?
+      this.toDelimited(records, fields, ',') :
+      JSON.stringify(records, null, 2);
+    // 엑셀이 한글 CSV를 UTF-8로 읽도록 BOM을 붙인다
+    await this.download(format === 'csv' ? `\uFEFF${content}` : content, 'records', format);
+  }
+
+  async exportRun(result: AgentResult, format: RunExportFormat): Promise<void> {
+    const content = format === 'markdown' ?
+      this.toMarkdown(result) :
+      JSON.stringify(this.toRunJson(result), null, 2);
+    await this.download(content, 'run', format);
+  }
+
+  // 스프레드시트에 붙여 넣으면 열이 나뉘도록 탭으로 구분한다
+  async copyRecords(records: ExtractedRecord[], fields: string[]): Promise<void> {
+    await navigator.clipboard.writeText(this.toDelimited(records, fields, '\t'));
+  }
+
+  async copyRun(result: AgentResult): Promise<void> {
+    await navigator.clipboard.writeText(this.toMarkdown(result));
+  }
+
+  private async download(content: string, name: string, format: RecordExportFormat | RunExportFormat): Promise<void> {
+    const blob = new Blob([content], { type: `${MIME_TYPES[format]};charset=utf-8` });
+    const url = URL.createObjectURL(blob);
+    const filename = `web-voyager-${name}-${this.timestamp()}.${EXTENSIONS[format]}`;
+
+    try {
+      const downloadId = await chrome.downloads.download({ url, filename, saveAs: false });
+      console.log(`[ResultExporter] Downloading ${filename} (id: ${downloadId})`);
+    } finally {
+      // 다운로드가 시작되기 전에 URL이 해제되지 않도록 잠시 뒤에 해제한다
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    }
+  }
+
+  private toDelimited(records: ExtractedRecord[], fields: string[], delimiter: ',' | '\t'): string {
+    const escape = (value: ExtractedRecord[string] | undefined) => {
+      if (value === null || value === undefined) return '';
+      let text = String(value);
+      // 웹 페이지에서 가져온 값이 스프레드시트에서 수식으로 실행되지 않도록 '를 앞에 붙인다
+      const isFormula = typeof value === 'string' && FORMULA_PREFIX.test(text);
+      if (isFormula) {
+        text = `'${text}`;
+      }
+      if (delimiter === '\t') {
+        return text.replace(/[\t\r\n]+/g, ' ');
+      }
+      return isFormula || /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    return [
+      fields.map(field => escape(field)).join(delimiter),
+      ...records.map(record => fields.map(field => escape(record[field])).join(delimiter))
+    ].join('\r\n');
+  }
+
+  private toMarkdown(result: AgentResult): string {
+    const lines = [
+      '# Web Voyager 실행 기록',
+      '',
+      `- 요청: ${result.query}`,
+      `- 결과: ${result.success ? '성공' : '실패'}${result.error ? ` (${result.error})` : ''}`,
+      `- 시작: ${new Date(result.startedAt).toLocaleString('ko-KR')}`,
+      `- 소요 시간: ${Math.round((result.finishedAt - result.startedAt) / 1000)}초`,
+      ''
+    ];
+
+    if (result.answer) {
+      lines.push('## 최종 답변', '', result.answer, '');
+    }
+
+    lines.push('## 단계', '');
+    if (result.steps.length === 0) {
+      lines.push('실행한 단계가 없습니다.', '');
+    }
+    result.steps.forEach((step, i) => {
+      lines.push(`### ${i + 1}. ${step.message.split('\n')[0]}`, '');
+      lines.push(`- 결과: ${step.success ? '성공' : '실패'}${step.error ? ` (${step.error})` : ''}`);
+      if (step.reasoning) lines.push(`- 판단: ${step.reasoning}`);
+      if (step.action) lines.push(`- 액션: \`${JSON.stringify(step.action)}\``);
+      // Find 결과처럼 여러 줄인 메시지는 나머지 줄을 그대로 붙인다
+      step.message.split('\n').slice(1).forEach(line => lines.push(`  ${line.trim()}`));
+      lines.push('');
+    });
+
+    if (result.records && result.recordFields) {
+      lines.push(`## 수집한 레코드 (${result.records.length}개)`, '');
+      if (result.records.length > 0) {
+        const cell = (value: ExtractedRecord[string] | undefined) =>
+          value === null || value === undefined ? '' : String(value).replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+        lines.push(
+          `| ${result.recordFields.join(' | ')} |`,
+          `| ${result.recordFields.map(() => '---').join(' | ')} |`,
+          ...result.records.map(record => `| ${result.recordFields!.map(field => cell(record[field])).join(' | ')} |`),
+          ''
+        );
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  private toRunJson(result: AgentResult) {
+    return {
+      query: result.query,
+      success: result.success,
+      answer: result.answer,
+      error: result.error,
+      startedAt: new Date(result.startedAt).toISOString(),
+      finishedAt: new Date(result.finishedAt).toISOString(),
+      steps: result.steps.map(step => ({
+        message: step.message,
+        success: step.success,
+        error: step.error,
+        reasoning: step.reasoning,
+        action: step.action
+      })),
+      records: result.records,
+      recordFields: result.recordFields
+    };
+  }
+
+  private timestamp(): string {
+    const now = new Date();
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}-${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`;
+  }
+}
+
+export const resultExporter = new ResultExporter();